@@ -5,10 +5,17 @@ import Desktop from './components/Desktop';
 import ChatApp from './components/apps/ChatApp';
 import SettingsApp from './components/apps/SettingsApp';
 import WorldBookApp from './components/apps/WorldBookApp';
-import { AppConfig, WorldEntry, ThemeMode, Contact } from './types';
+import { AppConfig, WorldEntry, ThemeMode, Contact, ApiPreset, WorldBook, Conversation } from './types';
+import { loadWorldBooks, saveWorldBooks } from './services/worldBooks';
+import { loadUsageLedger, saveUsageLedger, UsageLedger } from './services/usage';
+import { loadConversations, saveConversations } from './services/conversations';
+
+// Bumped when stored config needs a one-time migration
+const CONFIG_SCHEMA_VERSION = 1;
 
 // Default Configurations
 const DEFAULT_CONFIG: AppConfig = {
+  schemaVersion: CONFIG_SCHEMA_VERSION,
   model: 'gemini-3-flash-preview',
   userName: 'User',
   currentPersonaId: 'default-user',
@@ -16,6 +23,7 @@ const DEFAULT_CONFIG: AppConfig = {
     { id: 'default-user', name: 'User', avatar: 'bg-gradient-to-br from-indigo-500 to-purple-600' }
   ],
   systemPrompt: '你是一个集成在 OS 26 中的高级 AI 助手。你的回答简洁、智能且乐于助人。',
+  provider: 'gemini',
   presets: [],
   customApiUrl: '',
   customApiKey: '',
@@ -74,7 +82,23 @@ const App = () => {
         }];
         parsed.currentPersonaId = 'default-user';
       }
-      return { ...DEFAULT_CONFIG, ...parsed };
+      // Configs saved before providers existed always spoke the OpenAI wire format
+      if (!parsed.provider) {
+        parsed.provider = parsed.customApiUrl || parsed.customApiKey ? 'openai' : 'gemini';
+      }
+      // URLs used to get /v1 appended implicitly; keep that for connections saved before it became opt-in.
+      // Runs once: later configs and presets may leave endpoint unset with /v1 deliberately off.
+      if ((parsed.schemaVersion ?? 0) < 1) {
+        const keepV1 = (provider: string | undefined, url: string | undefined, endpoint: unknown) =>
+          provider !== 'gemini' && provider !== 'mock' && !!url?.trim() && endpoint === undefined;
+        if (keepV1(parsed.provider, parsed.customApiUrl, parsed.endpoint)) {
+          parsed.endpoint = { appendV1: true };
+        }
+        parsed.presets = (parsed.presets || []).map((p: ApiPreset) =>
+          keepV1(p.provider || 'openai', p.apiUrl, p.endpoint) ? { ...p, endpoint: { appendV1: true } } : p
+        );
+      }
+      return { ...DEFAULT_CONFIG, ...parsed, schemaVersion: CONFIG_SCHEMA_VERSION };
     }
     return DEFAULT_CONFIG;
   });
@@ -85,12 +109,19 @@ const App = () => {
     return saved ? JSON.parse(saved) : [];
   });
 
+  const [worldBooks, setWorldBooks] = useState<WorldBook[]>(loadWorldBooks);
+
   // Contacts State (Shared Data)
   const [contacts, setContacts] = useState<Contact[]>(() => {
     const saved = localStorage.getItem('os26_contacts');
     return saved ? JSON.parse(saved) : INITIAL_CONTACTS;
   });
 
+  // Conversations State (Shared Data)
+  const [conversations, setConversations] = useState<Conversation[]>(loadConversations);
+
+  const [usageLedger, setUsageLedger] = useState<UsageLedger>(() => loadUsageLedger(conversations));
+
   // Theme State
   const [theme, setTheme] = useState<ThemeMode>(() => {
     return (localStorage.getItem('os26_theme') as ThemeMode) || 'light';
@@ -105,10 +136,22 @@ const App = () => {
     localStorage.setItem('os26_worldbook', JSON.stringify(worldBook));
   }, [worldBook]);
 
+  useEffect(() => {
+    saveWorldBooks(worldBooks);
+  }, [worldBooks]);
+
   useEffect(() => {
     localStorage.setItem('os26_contacts', JSON.stringify(contacts));
   }, [contacts]);
 
+  useEffect(() => {
+    saveConversations(conversations);
+  }, [conversations]);
+
+  useEffect(() => {
+    saveUsageLedger(usageLedger);
+  }, [usageLedger]);
+
   useEffect(() => {
     localStorage.setItem('os26_theme', theme);
   }, [theme]);
@@ -155,8 +198,13 @@ const App = () => {
           config={config} 
           setConfig={setConfig}
           worldBook={worldBook}
+          worldBooks={worldBooks}
           contacts={contacts}
           setContacts={setContacts}
+          conversations={conversations}
+          setConversations={setConversations}
+          usageLedger={usageLedger}
+          setUsageLedger={setUsageLedger}
           theme={theme}
         />
       </AppWindow>
@@ -168,7 +216,10 @@ const App = () => {
         <WorldBookApp 
           entries={worldBook} 
           setEntries={setWorldBook} 
+          books={worldBooks}
+          setBooks={setWorldBooks}
           contacts={contacts}
+          setContacts={setContacts}
           closeApp={noopClose}
           theme={theme}
         />
@@ -183,6 +234,9 @@ const App = () => {
           setConfig={setConfig} 
           theme={theme} 
           setTheme={setTheme} 
+          contacts={contacts}
+          conversations={conversations}
+          usageLedger={usageLedger}
           closeApp={noopClose}
         />
       </AppWindow>
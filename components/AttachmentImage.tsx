@@ -0,0 +1,42 @@
+import React, { useState, useEffect } from 'react';
+import { ImageAttachment } from '../types';
+import { loadAttachmentUrl } from '../services/attachments';
+import { describeAttachment } from '../services/providers/attachments';
+
+interface AttachmentImageProps {
+  attachment: ImageAttachment;
+  className?: string;
+}
+
+// Image data lives in IndexedDB, so it is loaded after the first render
+const AttachmentImage: React.FC<AttachmentImageProps> = ({ attachment, className = '' }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAttachmentUrl(attachment.id)
+      .then(result => {
+        if (cancelled) return;
+        setUrl(result);
+        setMissing(!result);
+      })
+      .catch(() => !cancelled && setMissing(true));
+    return () => { cancelled = true; };
+  }, [attachment.id]);
+
+  if (missing) {
+    return <div className={`text-xs opacity-60 ${className}`}>{describeAttachment(attachment)} 已丢失</div>;
+  }
+
+  return (
+    <div
+      className={`rounded-md overflow-hidden bg-black/10 ${className}`}
+      style={{ aspectRatio: `${attachment.width} / ${attachment.height}` }}
+    >
+      {url && <img src={url} alt={attachment.name || ''} className="w-full h-full object-cover" />}
+    </div>
+  );
+};
+
+export default AttachmentImage;
@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { ApiProvider, EndpointConfig, ThemeMode } from '../types';
+import { DEFAULT_AZURE_API_VERSION } from '../services/providers/endpoint';
+
+interface EndpointSettingsFormProps {
+  value?: EndpointConfig;
+  onChange: (value: EndpointConfig) => void;
+  provider?: ApiProvider;
+  theme: ThemeMode;
+}
+
+// Headers are edited one per line as "Name: value"
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+const parseHeaders = (text: string) => {
+  const headers: Record<string, string> = {};
+  text.split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim();
+    if (name) headers[name] = line.slice(colon + 1).trim();
+  });
+  return Object.keys(headers).length ? headers : undefined;
+};
+
+const EndpointSettingsForm: React.FC<EndpointSettingsFormProps> = ({ value, onChange, provider = 'openai', theme }) => {
+  const endpoint: EndpointConfig = value || {};
+  const isDark = theme === 'dark';
+  const textPrimary = isDark ? 'text-white' : 'text-slate-900';
+  const textSecondary = isDark ? 'text-gray-400' : 'text-slate-500';
+  const bgInput = isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-slate-100 border-slate-200 text-slate-900';
+
+  const headersText = formatHeaders(endpoint.extraHeaders);
+  const [headersDraft, setHeadersDraft] = useState(headersText);
+  useEffect(() => setHeadersDraft(headersText), [headersText]);
+
+  const update = (patch: Partial<EndpointConfig>) => onChange({ ...endpoint, ...patch });
+
+  const toggle = (label: string, hint: string, checked: boolean, onToggle: () => void) => (
+    <div className="flex items-center justify-between">
+      <div>
+        <span className={`text-sm ${textPrimary}`}>{label}</span>
+        <p className={`text-[10px] ${textSecondary}`}>{hint}</p>
+      </div>
+      <div
+        onClick={(e) => { e.stopPropagation(); onToggle(); }}
+        className={`w-14 h-8 shrink-0 rounded-full p-1 cursor-pointer transition-colors duration-300 ${checked ? 'bg-green-500' : (isDark ? 'bg-slate-700' : 'bg-gray-200')}`}
+      >
+        <div className={`w-6 h-6 rounded-full bg-white shadow-md transform transition-transform duration-300 ${checked ? 'translate-x-6' : 'translate-x-0'}`}></div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {provider === 'openai' && toggle(
+        'Azure OpenAI',
+        '使用 api-key 请求头与 api-version 参数，按部署名访问',
+        !!endpoint.azure,
+        () => update({ azure: !endpoint.azure })
+      )}
+
+      {provider === 'openai' && endpoint.azure ? (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={`block text-[10px] mb-1 ${textSecondary}`}>api-version</label>
+            <input
+              type="text"
+              placeholder={DEFAULT_AZURE_API_VERSION}
+              value={endpoint.azureApiVersion || ''}
+              onChange={(e) => update({ azureApiVersion: e.target.value || undefined })}
+              className={`w-full rounded-lg p-2 text-sm focus:outline-none border font-mono ${bgInput}`}
+            />
+          </div>
+          <div>
+            <label className={`block text-[10px] mb-1 ${textSecondary}`}>部署名 (留空使用模型名)</label>
+            <input
+              type="text"
+              value={endpoint.azureDeployment || ''}
+              onChange={(e) => update({ azureDeployment: e.target.value || undefined })}
+              className={`w-full rounded-lg p-2 text-sm focus:outline-none border font-mono ${bgInput}`}
+            />
+          </div>
+        </div>
+      ) : provider !== 'gemini' && toggle(
+        '自动补全 /v1',
+        'URL 中没有版本路径时追加 /v1；关闭则按填写的地址原样请求',
+        !!endpoint.appendV1,
+        () => update({ appendV1: !endpoint.appendV1 })
+      )}
+
+      <div>
+        <label className={`block text-[10px] mb-1 ${textSecondary}`}>额外请求头 (每行一个，格式 Name: value)</label>
+        <textarea
+          value={headersDraft}
+          onChange={(e) => setHeadersDraft(e.target.value)}
+          onBlur={() => update({ extraHeaders: parseHeaders(headersDraft) })}
+          placeholder={'HTTP-Referer: https://example.com\nX-Title: OS 26'}
+          className={`w-full rounded-lg p-3 text-sm h-20 focus:outline-none border resize-none font-mono ${bgInput}`}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EndpointSettingsForm;
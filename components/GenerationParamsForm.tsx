@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { ApiProvider, GenerationParams, ThemeMode } from '../types';
+import { SUPPORTED_PARAMS } from '../services/generationParams';
+
+interface GenerationParamsFormProps {
+  value: GenerationParams;
+  onChange: (value: GenerationParams) => void;
+  provider?: ApiProvider;
+  theme: ThemeMode;
+  placeholders?: GenerationParams; // Inherited values shown when a field is left empty
+}
+
+const NUMERIC_FIELDS: { key: Exclude<keyof GenerationParams, 'stopSequences'>; label: string; step: number; integer?: boolean }[] = [
+  { key: 'temperature', label: 'Temperature', step: 0.1 },
+  { key: 'maxTokens', label: '最大回复长度', step: 1, integer: true },
+  { key: 'topP', label: 'Top P', step: 0.05 },
+  { key: 'topK', label: 'Top K', step: 1, integer: true },
+  { key: 'frequencyPenalty', label: '频率惩罚', step: 0.1 },
+  { key: 'presencePenalty', label: '存在惩罚', step: 0.1 },
+  { key: 'thinkingBudget', label: '思考预算 (tokens)', step: 1, integer: true },
+];
+
+const GenerationParamsForm: React.FC<GenerationParamsFormProps> = ({ value, onChange, provider = 'openai', theme, placeholders }) => {
+  const isDark = theme === 'dark';
+  const textSecondary = isDark ? 'text-gray-400' : 'text-slate-500';
+  const bgInput = isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-slate-100 border-slate-200 text-slate-900';
+  const supported = SUPPORTED_PARAMS[provider];
+  const inherited: GenerationParams = placeholders || {};
+
+  // Stop sequences are edited as free text and only parsed on blur so commas can be typed
+  const joinedStops = value.stopSequences?.join(', ') ?? '';
+  const [stopDraft, setStopDraft] = useState(joinedStops);
+  useEffect(() => {
+    setStopDraft(joinedStops);
+  }, [joinedStops]);
+
+  const setField = <K extends keyof GenerationParams>(key: K, fieldValue: GenerationParams[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {NUMERIC_FIELDS.map(field => (
+          <div key={field.key} className={supported.includes(field.key) ? '' : 'opacity-40'}>
+            <label className={`block text-[10px] mb-1 ${textSecondary}`}>
+              {field.label}{!supported.includes(field.key) && ' (不支持)'}
+            </label>
+            <input
+              type="number"
+              step={field.step}
+              placeholder={inherited[field.key] !== undefined ? String(inherited[field.key]) : '默认'}
+              value={value[field.key] ?? ''}
+              onChange={(e) => {
+                const raw = e.target.value;
+                const parsed = field.integer ? parseInt(raw) : parseFloat(raw);
+                setField(field.key, raw === '' || isNaN(parsed) ? undefined : parsed);
+              }}
+              className={`w-full rounded-lg p-2 text-sm focus:outline-none border font-mono ${bgInput}`}
+            />
+          </div>
+        ))}
+      </div>
+      <div className={supported.includes('stopSequences') ? '' : 'opacity-40'}>
+        <label className={`block text-[10px] mb-1 ${textSecondary}`}>停止序列 (以逗号分隔)</label>
+        <input
+          type="text"
+          placeholder={inherited.stopSequences?.join(', ') || '例如: 用户:, ###'}
+          value={stopDraft}
+          onChange={(e) => setStopDraft(e.target.value)}
+          onBlur={() => {
+            const stops = stopDraft.split(/[,，]/).map(s => s.trim()).filter(Boolean);
+            setField('stopSequences', stops.length > 0 ? stops : undefined);
+          }}
+          className={`w-full rounded-lg p-2 text-sm focus:outline-none border font-mono ${bgInput}`}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default GenerationParamsForm;
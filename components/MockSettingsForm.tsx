@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { Conversation, MockSettings, ThemeMode } from '../types';
+import { DEFAULT_MOCK_SETTINGS } from '../services/providers/mock';
+
+interface MockSettingsFormProps {
+  value?: MockSettings;
+  onChange: (value: MockSettings) => void;
+  conversations: Conversation[];
+  theme: ThemeMode;
+}
+
+// Multiple replies are edited as one text block, separated by a line containing only ---
+const SEPARATOR = '\n---\n';
+const splitReplies = (text: string) => text.split(/\r?\n-{3,}\r?\n/).map(r => r.trim()).filter(Boolean);
+
+const MODES: { id: MockSettings['mode']; label: string }[] = [
+  { id: 'echo', label: '回显' },
+  { id: 'canned', label: '预设回复' },
+  { id: 'replay', label: '回放记录' },
+];
+
+const SIMULATIONS: { id: NonNullable<MockSettings['simulate']>; label: string }[] = [
+  { id: 'none', label: '正常' },
+  { id: 'slow', label: '慢速流' },
+  { id: 'rateLimit', label: '限流 (429)' },
+  { id: 'error', label: '服务器错误 (500)' },
+  { id: 'midStreamError', label: '流中断' },
+];
+
+const MockSettingsForm: React.FC<MockSettingsFormProps> = ({ value, onChange, conversations, theme }) => {
+  const isDark = theme === 'dark';
+  const textSecondary = isDark ? 'text-gray-400' : 'text-slate-500';
+  const bgInput = isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-slate-100 border-slate-200 text-slate-900';
+  const settings = { ...DEFAULT_MOCK_SETTINGS, ...value };
+
+  const cannedText = (settings.cannedResponses || []).join(SEPARATOR);
+  const transcriptText = (settings.transcript || []).join(SEPARATOR);
+  const [cannedDraft, setCannedDraft] = useState(cannedText);
+  const [transcriptDraft, setTranscriptDraft] = useState(transcriptText);
+  useEffect(() => setCannedDraft(cannedText), [cannedText]);
+  useEffect(() => setTranscriptDraft(transcriptText), [transcriptText]);
+
+  const update = (patch: Partial<MockSettings>) => onChange({ ...settings, ...patch });
+
+  const recordFromConversation = (convId: string) => {
+    const conv = conversations.find(c => c.id === convId);
+    if (!conv) return;
+    const replies = conv.messages.filter(m => m.role === 'model' && m.text.trim()).map(m => m.text);
+    update({ transcript: replies, mode: 'replay' });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className={`flex rounded-lg p-1 ${isDark ? 'bg-black/40' : 'bg-slate-200'}`}>
+        {MODES.map(mode => (
+          <button
+            key={mode.id}
+            onClick={() => update({ mode: mode.id })}
+            className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-all ${settings.mode === mode.id ? (isDark ? 'bg-white/20 text-white shadow-sm' : 'bg-white text-slate-900 shadow-sm') : 'text-slate-500'}`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={`block text-[10px] mb-1 ${textSecondary}`}>分段间隔 (毫秒)</label>
+          <input
+            type="number"
+            min={0}
+            value={settings.chunkDelayMs ?? ''}
+            onChange={(e) => update({ chunkDelayMs: e.target.value ? Math.max(parseInt(e.target.value), 0) : undefined })}
+            className={`w-full rounded-lg p-2 text-sm focus:outline-none border font-mono ${bgInput}`}
+          />
+        </div>
+        <div>
+          <label className={`block text-[10px] mb-1 ${textSecondary}`}>模拟情况</label>
+          <select
+            value={settings.simulate || 'none'}
+            onChange={(e) => update({ simulate: e.target.value as MockSettings['simulate'] })}
+            className={`w-full rounded-lg p-2 text-sm focus:outline-none border ${bgInput}`}
+          >
+            {SIMULATIONS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {settings.mode === 'canned' && (
+        <div>
+          <label className={`block text-[10px] mb-1 ${textSecondary}`}>预设回复 (用单独一行 --- 分隔，留空使用内置示例)</label>
+          <textarea
+            value={cannedDraft}
+            onChange={(e) => setCannedDraft(e.target.value)}
+            onBlur={() => update({ cannedResponses: splitReplies(cannedDraft) })}
+            className={`w-full rounded-lg p-3 text-sm h-28 focus:outline-none border resize-none ${bgInput}`}
+          />
+        </div>
+      )}
+
+      {settings.mode === 'replay' && (
+        <div className="space-y-2">
+          <select
+            value=""
+            onChange={(e) => recordFromConversation(e.target.value)}
+            className={`w-full rounded-lg p-2 text-sm focus:outline-none border ${bgInput}`}
+          >
+            <option value="" disabled>从已有会话录制...</option>
+            {conversations.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.lastMessage ? c.lastMessage.slice(0, 20) : c.id} ({c.messages.filter(m => m.role === 'model').length} 条回复)
+              </option>
+            ))}
+          </select>
+          <label className={`block text-[10px] mb-1 ${textSecondary}`}>回放记录 (每轮一条，用单独一行 --- 分隔)</label>
+          <textarea
+            value={transcriptDraft}
+            onChange={(e) => setTranscriptDraft(e.target.value)}
+            onBlur={() => update({ transcript: splitReplies(transcriptDraft) })}
+            className={`w-full rounded-lg p-3 text-sm h-28 focus:outline-none border resize-none ${bgInput}`}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MockSettingsForm;
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { ChatMessage, GenerationParams, ThemeMode } from '../types';
+import { IconChevronLeft, IconX } from './Icons';
+import { PROVIDER_LABELS } from '../services/providers';
+import { describeAttachment } from '../services/providers/attachments';
+
+interface PromptInspectorProps {
+  messages: ChatMessage[];
+  theme: ThemeMode;
+  onClose: () => void;
+}
+
+const PARAM_LABELS: Record<keyof GenerationParams, string> = {
+  temperature: 'temperature',
+  maxTokens: 'max_tokens',
+  topP: 'top_p',
+  topK: 'top_k',
+  frequencyPenalty: 'frequency_penalty',
+  presencePenalty: 'presence_penalty',
+  stopSequences: 'stop',
+  thinkingBudget: 'thinking_budget',
+};
+
+const PromptInspector: React.FC<PromptInspectorProps> = ({ messages, theme, onClose }) => {
+  const isDark = theme === 'dark';
+  const textPrimary = isDark ? 'text-white' : 'text-slate-900';
+  const textSecondary = isDark ? 'text-gray-400' : 'text-slate-500';
+  const bgPanel = isDark ? 'glass-panel' : 'bg-white shadow-sm border border-slate-200';
+  const bgCode = isDark ? 'bg-black/40 text-gray-200' : 'bg-slate-100 text-slate-800';
+
+  // Newest turn first; turns from before the inspector existed have nothing to show
+  const turns = messages.filter(m => m.role === 'model' && m.inspection).reverse();
+  const [selectedId, setSelectedId] = useState<string | null>(turns[0]?.id || null);
+  const selected = turns.find(m => m.id === selectedId);
+
+  const renderDetail = (message: ChatMessage) => {
+    const inspection = message.inspection!;
+    // History is contiguous, so it is found again from its first message
+    const firstIndex = messages.findIndex(m => m.id === inspection.historyFirstId);
+    const history = firstIndex === -1 ? [] : messages.slice(firstIndex, firstIndex + inspection.historyCount);
+    const params = Object.entries(inspection.params) as [keyof GenerationParams, unknown][];
+
+    const section = (title: string, children: React.ReactNode) => (
+      <div className={`${bgPanel} p-4 rounded-2xl`}>
+        <h4 className={`text-xs font-bold mb-2 ${textSecondary}`}>{title}</h4>
+        {children}
+      </div>
+    );
+
+    return (
+      <div className="space-y-3">
+        {section('模型与参数', (
+          <div className={`text-xs space-y-1 ${textPrimary}`}>
+            <div>{inspection.preset} · {PROVIDER_LABELS[inspection.provider]} · <span className="font-mono">{inspection.model}</span></div>
+            <div className={textSecondary}>
+              {inspection.stream ? '流式' : '非流式'} · 估算输入 {inspection.estimatedTokens} tokens
+              {message.usage && !message.usage.estimated && ` · 实际 ${message.usage.promptTokens}+${message.usage.completionTokens}`}
+            </div>
+            {params.length > 0 && (
+              <div className="font-mono">
+                {params.map(([key, value]) => `${PARAM_LABELS[key]}=${Array.isArray(value) ? JSON.stringify(value) : value}`).join('  ')}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {section(`世界书条目 (${inspection.worldEntries.length})`, (
+          inspection.worldEntries.length === 0 && inspection.droppedEntries.length === 0 && !inspection.worldBookSkipped ? (
+            <p className={`text-xs ${textSecondary}`}>没有条目被激活</p>
+          ) : (
+            <div className="space-y-1 text-xs">
+              {inspection.worldBookBudget !== undefined && (
+                <p className={textSecondary}>
+                  预算 {inspection.worldBookTokens} / {inspection.worldBookBudget} tokens{inspection.droppedEntries.length > 0 ? `，已舍弃 ${inspection.droppedEntries.length} 条低优先级条目` : ''}
+                </p>
+              )}
+              {inspection.worldBookLoops?.map(loop => (
+                <p key={loop} className="text-amber-400">检测到循环触发: {loop}</p>
+              ))}
+              {inspection.worldBookSkipped?.map(note => (
+                <p key={note} className={textSecondary}>未激活: {note}</p>
+              ))}
+              {inspection.worldEntries.map(entry => (
+                <div key={entry.id} className="flex justify-between gap-2">
+                  <span className={textPrimary}>{entry.title}</span>
+                  <span className={`text-right ${textSecondary}`}>
+                    {entry.reason}
+                    {entry.placement && <span className="block text-[10px]">{entry.placement}</span>}
+                  </span>
+                </div>
+              ))}
+              {inspection.droppedEntries.map(entry => (
+                <div key={entry.id} className="flex justify-between gap-2 text-red-400">
+                  <span className="line-through">{entry.title}</span>
+                  <span className="text-right">
+                    {entry.reason} · 超出预算
+                    {entry.placement && <span className="block text-[10px]">{entry.placement}</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )
+        ))}
+
+        {section('系统指令', (
+          <pre className={`text-xs p-3 rounded-lg whitespace-pre-wrap break-words max-h-64 overflow-y-auto ${bgCode}`}>{inspection.systemInstruction}</pre>
+        ))}
+
+        {section(`历史消息 (${inspection.historyCount} 条${inspection.droppedMessageCount ? `，省略 ${inspection.droppedMessageCount} 条` : ''})`, (
+          <div className={`text-xs p-3 rounded-lg space-y-2 max-h-64 overflow-y-auto ${bgCode}`}>
+            {history.map(m => (
+              <div key={m.id}>
+                <span className="font-bold">{m.role === 'user' ? 'user' : 'model'}: </span>
+                <span className="whitespace-pre-wrap break-words">{[m.text, ...(m.attachments || []).map(describeAttachment)].filter(Boolean).join('\n')}</span>
+              </div>
+            ))}
+            <div>
+              <span className="font-bold">user: </span>
+              <span className="whitespace-pre-wrap break-words">{inspection.currentMessage}</span>
+            </div>
+          </div>
+        ))}
+
+        {message.reasoning && section('思考过程', (
+          <pre className={`text-xs p-3 rounded-lg whitespace-pre-wrap break-words max-h-64 overflow-y-auto ${bgCode}`}>{message.reasoning}</pre>
+        ))}
+
+        {section('原始回复', (
+          <pre className={`text-xs p-3 rounded-lg whitespace-pre-wrap break-words max-h-64 overflow-y-auto ${bgCode}`}>{message.text || '(生成中...)'}</pre>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`absolute inset-0 z-[60] p-6 flex flex-col animate-fade-in overflow-y-auto no-scrollbar ${isDark ? 'bg-slate-900/95 backdrop-blur-xl' : 'bg-white/95 backdrop-blur-xl'}`}>
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center gap-2">
+          {selected && turns.length > 1 && (
+            <button onClick={() => setSelectedId(null)} className={`p-2 -ml-2 rounded-full ${textPrimary}`}>
+              <IconChevronLeft className="w-5 h-5" />
+            </button>
+          )}
+          <h3 className={`text-lg font-bold ${textPrimary}`}>提示词检查器</h3>
+        </div>
+        <button onClick={onClose} className={`p-2 rounded-full ${isDark ? 'bg-white/10' : 'bg-slate-100'}`}>
+          <IconX className={`w-5 h-5 ${textPrimary}`} />
+        </button>
+      </div>
+
+      {turns.length === 0 ? (
+        <p className={`text-sm text-center py-10 ${textSecondary}`}>暂无可检查的回复</p>
+      ) : selected ? (
+        renderDetail(selected)
+      ) : (
+        <div className="space-y-2">
+          {turns.map(turn => (
+            <button
+              key={turn.id}
+              onClick={() => setSelectedId(turn.id)}
+              className={`w-full text-left p-3 rounded-xl ${bgPanel}`}
+            >
+              <div className={`text-[10px] ${textSecondary}`}>
+                {new Date(turn.timestamp).toLocaleString()} · {turn.inspection!.worldEntries.length} 条世界书
+              </div>
+              <div className={`text-sm truncate ${textPrimary}`}>{turn.text || '(空回复)'}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptInspector;
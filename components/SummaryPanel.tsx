@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { ConversationSummary, ThemeMode } from '../types';
+
+interface SummaryPanelProps {
+  summary?: ConversationSummary;
+  summarizedCount: number;
+  stale: boolean; // The summarized range can no longer be found; it needs a rebuild
+  pendingCount: number; // Unsummarized messages old enough to be condensed
+  summarizing: boolean;
+  theme: ThemeMode;
+  onEdit: (text: string) => void;
+  onToggleLock: () => void;
+  onRegenerate: () => void;
+}
+
+const SummaryPanel: React.FC<SummaryPanelProps> = ({
+  summary,
+  summarizedCount,
+  stale,
+  pendingCount,
+  summarizing,
+  theme,
+  onEdit,
+  onToggleLock,
+  onRegenerate
+}) => {
+  const isDark = theme === 'dark';
+  const textPrimary = isDark ? 'text-white' : 'text-slate-900';
+  const textSecondary = isDark ? 'text-gray-400' : 'text-slate-500';
+  const bgPanel = isDark ? 'glass-panel' : 'bg-white shadow-sm border border-slate-200';
+  const bgInput = isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-slate-100 border-slate-200 text-slate-900';
+
+  // Edits are committed on blur so typing doesn't rewrite the conversation on every key
+  const [draft, setDraft] = useState(summary?.text || '');
+  useEffect(() => setDraft(summary?.text || ''), [summary?.text]);
+
+  const locked = !!summary?.locked;
+  const canRegenerate = !summarizing && !locked && summarizedCount + pendingCount > 0;
+
+  return (
+    <div className={`${bgPanel} p-4 rounded-2xl mb-4`}>
+      <div className="flex justify-between items-center mb-1">
+        <h4 className={`text-xs font-bold ${textSecondary}`}>长期记忆</h4>
+        <div className="flex gap-3">
+          {summary && (
+            <button onClick={onToggleLock} className={`text-xs ${locked ? 'text-amber-400' : textSecondary}`}>
+              {locked ? '已锁定' : '锁定'}
+            </button>
+          )}
+          <button
+            onClick={onRegenerate}
+            disabled={!canRegenerate}
+            className={`text-xs ${canRegenerate ? 'text-blue-400' : textSecondary} disabled:opacity-50`}
+          >
+            {summarizing ? '总结中...' : summary ? '重新生成' : '立即总结'}
+          </button>
+        </div>
+      </div>
+      <p className={`text-[10px] mb-2 ${textSecondary}`}>
+        {summary && stale
+          ? '提要覆盖的消息已被删除，重新生成前不会注入提要。'
+          : summary
+          ? `已总结 ${summarizedCount} 条消息 · ${new Date(summary.updatedAt).toLocaleString()}${locked ? ' · 锁定后不再自动更新' : ''}`
+          : '历史过长时，较早的消息会被总结为前情提要并注入系统指令。'}
+      </p>
+      {summary ? (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => draft !== summary.text && onEdit(draft)}
+          className={`w-full rounded-lg p-3 text-sm h-40 focus:outline-none border resize-none ${bgInput}`}
+        />
+      ) : (
+        <p className={`text-xs ${textPrimary}`}>暂无提要{pendingCount > 0 ? `，可总结 ${pendingCount} 条较早的消息` : ''}</p>
+      )}
+    </div>
+  );
+};
+
+export default SummaryPanel;
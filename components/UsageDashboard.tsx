@@ -0,0 +1,164 @@
+import React, { useState, useMemo } from 'react';
+import { AppConfig, Contact, ModelPrice, ThemeMode } from '../types';
+import { aggregateUsage, getLedgerRecords, getMonthlySpend, toMonthKey, UsageLedger, UsageRecord } from '../services/usage';
+
+interface UsageDashboardProps {
+  config: AppConfig;
+  setConfig: React.Dispatch<React.SetStateAction<AppConfig>>;
+  contacts: Contact[];
+  usageLedger: UsageLedger;
+  theme: ThemeMode;
+}
+
+type GroupBy = 'contact' | 'preset' | 'day';
+
+const GROUPS: { id: GroupBy; label: string }[] = [
+  { id: 'contact', label: '按角色' },
+  { id: 'preset', label: '按预设' },
+  { id: 'day', label: '按日期' },
+];
+
+const formatCost = (cost: number) => cost.toFixed(cost < 1 ? 4 : 2);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ config, setConfig, contacts, usageLedger, theme }) => {
+  const isDark = theme === 'dark';
+  const textPrimary = isDark ? 'text-white' : 'text-slate-900';
+  const textSecondary = isDark ? 'text-gray-400' : 'text-slate-500';
+  const bgPanel = isDark ? 'glass-panel' : 'bg-white shadow-sm border border-slate-200';
+  const bgInput = isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-slate-100 border-slate-200 text-slate-900';
+  const rowBorder = isDark ? 'border-white/5' : 'border-slate-100';
+
+  const [groupBy, setGroupBy] = useState<GroupBy>('contact');
+
+  const prices = config.modelPrices || {};
+  const records = useMemo(() => getLedgerRecords(usageLedger), [usageLedger]);
+  const monthlySpend = getMonthlySpend(usageLedger, prices);
+
+  const keyOf = (record: UsageRecord) => {
+    if (groupBy === 'contact') return contacts.find(c => c.id === record.contactId)?.name || '已删除的角色';
+    if (groupBy === 'preset') return record.preset;
+    return record.day;
+  };
+  const rows = aggregateUsage(records, keyOf, prices)
+    .sort((a, b) => groupBy === 'day' ? b.key.localeCompare(a.key) : b.cost - a.cost || b.promptTokens - a.promptTokens);
+
+  // Offer a price row for every model that has been used or priced before
+  const models = [...new Set([...records.map(r => r.model), ...Object.keys(prices)])].sort();
+
+  const updatePrice = (model: string, patch: Partial<ModelPrice>) => {
+    setConfig(prev => {
+      const current = prev.modelPrices?.[model] || { input: 0, output: 0 };
+      return { ...prev, modelPrices: { ...prev.modelPrices, [model]: { ...current, ...patch } } };
+    });
+  };
+
+  const limit = config.monthlySpendLimit;
+  const overLimit = !!limit && monthlySpend >= limit;
+
+  return (
+    <div className="space-y-4">
+      {/* Monthly Summary */}
+      <div className={`${bgPanel} p-5 rounded-2xl`}>
+        <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>本月花费 ({toMonthKey(Date.now())})</h2>
+        <div className="flex items-baseline justify-between">
+          <span className={`text-3xl font-bold ${overLimit ? 'text-red-400' : textPrimary}`}>{formatCost(monthlySpend)}</span>
+          {!!limit && <span className={`text-xs ${textSecondary}`}>上限 {limit}</span>}
+        </div>
+        {!!limit && (
+          <div className={`h-1.5 rounded-full mt-3 overflow-hidden ${isDark ? 'bg-white/10' : 'bg-slate-200'}`}>
+            <div
+              className={`h-full ${overLimit ? 'bg-red-500' : 'bg-green-500'}`}
+              style={{ width: `${Math.min((monthlySpend / limit) * 100, 100)}%` }}
+            />
+          </div>
+        )}
+        <div className="mt-4">
+          <label className={`block text-[10px] mb-1 ${textSecondary}`}>每月花费上限 (达到后禁止发送，留空不限制)</label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={limit ?? ''}
+            onChange={(e) => setConfig(prev => ({ ...prev, monthlySpendLimit: e.target.value ? Math.max(parseFloat(e.target.value), 0) : undefined }))}
+            className={`w-full rounded-lg p-2 text-sm focus:outline-none border font-mono ${bgInput}`}
+          />
+        </div>
+      </div>
+
+      {/* Breakdown */}
+      <div className={`${bgPanel} p-5 rounded-2xl`}>
+        <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>用量统计</h2>
+        <div className={`flex rounded-lg p-1 mb-3 ${isDark ? 'bg-black/40' : 'bg-slate-200'}`}>
+          {GROUPS.map(group => (
+            <button
+              key={group.id}
+              onClick={() => setGroupBy(group.id)}
+              className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-all ${groupBy === group.id ? (isDark ? 'bg-white/20 text-white shadow-sm' : 'bg-white text-slate-900 shadow-sm') : 'text-slate-500'}`}
+            >
+              {group.label}
+            </button>
+          ))}
+        </div>
+        {rows.length === 0 ? (
+          <p className={`text-xs text-center py-4 ${textSecondary}`}>暂无用量记录</p>
+        ) : (
+          <div className="text-xs">
+            <div className={`grid grid-cols-[1fr_auto_auto_auto] gap-3 pb-2 border-b ${rowBorder} ${textSecondary}`}>
+              <span>名称</span>
+              <span className="text-right">输入</span>
+              <span className="text-right">输出</span>
+              <span className="text-right">花费</span>
+            </div>
+            {rows.map(row => (
+              <div key={row.key} className={`grid grid-cols-[1fr_auto_auto_auto] gap-3 py-2 border-b ${rowBorder} ${textPrimary}`}>
+                <span className="truncate">{row.key} <span className={textSecondary}>×{row.requests}</span></span>
+                <span className="text-right font-mono">{row.estimated ? '≈' : ''}{row.promptTokens}</span>
+                <span className="text-right font-mono">{row.completionTokens}</span>
+                <span className="text-right font-mono">{formatCost(row.cost)}</span>
+              </div>
+            ))}
+            <p className={`text-[10px] mt-2 ${textSecondary}`}>≈ 表示接口未返回用量，按本地估算计入。</p>
+          </div>
+        )}
+      </div>
+
+      {/* Model Prices */}
+      <div className={`${bgPanel} p-5 rounded-2xl`}>
+        <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>模型价格 (每百万 tokens)</h2>
+        {models.length === 0 ? (
+          <p className={`text-xs text-center py-4 ${textSecondary}`}>发送消息后，用到的模型会出现在这里</p>
+        ) : (
+          <div className="space-y-3">
+            {models.map(model => (
+              <div key={model}>
+                <div className={`text-xs font-mono truncate mb-1 ${textPrimary}`}>{model}</div>
+                <div className="grid grid-cols-2 gap-3">
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    placeholder="输入价格"
+                    value={prices[model]?.input ?? ''}
+                    onChange={(e) => updatePrice(model, { input: e.target.value ? Math.max(parseFloat(e.target.value), 0) : 0 })}
+                    className={`w-full rounded-lg p-2 text-sm focus:outline-none border font-mono ${bgInput}`}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    placeholder="输出价格"
+                    value={prices[model]?.output ?? ''}
+                    onChange={(e) => updatePrice(model, { output: e.target.value ? Math.max(parseFloat(e.target.value), 0) : 0 })}
+                    className={`w-full rounded-lg p-2 text-sm focus:outline-none border font-mono ${bgInput}`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Contact, Conversation, ThemeMode, WorldBook } from '../types';
+
+interface WorldBookAttachPanelProps {
+  books: WorldBook[];
+  contact: Contact;
+  conversation: Conversation;
+  theme: ThemeMode;
+  onToggleContact: (bookId: string) => void;
+  onToggleConversation: (bookId: string) => void;
+}
+
+const WorldBookAttachPanel: React.FC<WorldBookAttachPanelProps> = ({
+  books,
+  contact,
+  conversation,
+  theme,
+  onToggleContact,
+  onToggleConversation
+}) => {
+  const isDark = theme === 'dark';
+  const textPrimary = isDark ? 'text-white' : 'text-slate-900';
+  const textSecondary = isDark ? 'text-gray-400' : 'text-slate-500';
+  const bgPanel = isDark ? 'glass-panel' : 'bg-white shadow-sm border border-slate-200';
+
+  const pill = (label: string, on: boolean, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className={`px-2 py-1 rounded-full text-[10px] font-medium border transition-all ${
+        on
+          ? 'bg-amber-500 border-amber-500 text-white'
+          : (isDark ? 'bg-white/5 border-white/10 text-white/60' : 'bg-white border-slate-200 text-slate-600')
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className={`${bgPanel} p-4 rounded-2xl mb-4`}>
+      <h4 className={`text-xs font-bold mb-1 ${textSecondary}`}>世界书</h4>
+      <p className={`text-[10px] mb-3 ${textSecondary}`}>全局世界书在所有聊天中生效；其余可绑定到该角色的所有聊天，或仅本次对话。</p>
+      <div className="space-y-2">
+        {books.map(book => (
+          <div key={book.id} className={`flex justify-between items-center gap-2 ${book.enabled ? '' : 'opacity-50'}`}>
+            <div className="min-w-0">
+              <div className={`text-sm truncate ${textPrimary}`}>{book.name}</div>
+              {book.description && <div className={`text-[10px] truncate ${textSecondary}`}>{book.description}</div>}
+            </div>
+            <div className="flex gap-1 shrink-0">
+              {!book.enabled ? (
+                <span className={`text-[10px] ${textSecondary}`}>已停用</span>
+              ) : book.global ? (
+                <span className={`text-[10px] ${textSecondary}`}>全局</span>
+              ) : (
+                <>
+                  {pill('角色', !!contact.worldBookIds?.includes(book.id), () => onToggleContact(book.id))}
+                  {pill('本对话', !!conversation.worldBookIds?.includes(book.id), () => onToggleConversation(book.id))}
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WorldBookAttachPanel;
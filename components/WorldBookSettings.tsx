@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Contact, ThemeMode, WorldBook } from '../types';
+
+interface WorldBookSettingsProps {
+  book: WorldBook;
+  entryCount: number;
+  contacts: Contact[];
+  canDelete: boolean;
+  theme: ThemeMode;
+  onChange: (patch: Partial<WorldBook>) => void;
+  onToggleContact: (contactId: string) => void;
+  onDelete: () => void;
+}
+
+const WorldBookSettings: React.FC<WorldBookSettingsProps> = ({
+  book,
+  entryCount,
+  contacts,
+  canDelete,
+  theme,
+  onChange,
+  onToggleContact,
+  onDelete
+}) => {
+  const isDark = theme === 'dark';
+  const textPrimary = isDark ? 'text-white' : 'text-slate-900';
+  const textTertiary = isDark ? 'text-white/40' : 'text-slate-400';
+  const bgPanel = isDark ? 'glass-panel' : 'bg-white shadow-sm border border-slate-200';
+  const bgInput = isDark ? 'bg-black/40 placeholder-white/30 text-white' : 'bg-slate-50 placeholder-slate-400 text-slate-900 border-slate-200';
+  // Deleting a book takes its entries with it, so it needs a second tap
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const toggle = (label: string, hint: string, on: boolean, onClick: () => void) => (
+    <div className="flex items-center justify-between">
+      <div>
+        <span className={`text-sm ${textPrimary}`}>{label}</span>
+        <p className={`text-[10px] ${textTertiary}`}>{hint}</p>
+      </div>
+      <div
+        onClick={onClick}
+        className={`w-12 h-7 shrink-0 rounded-full p-1 cursor-pointer transition-colors duration-300 ${on ? 'bg-amber-500' : (isDark ? 'bg-slate-700' : 'bg-gray-200')}`}
+      >
+        <div className={`w-5 h-5 rounded-full bg-white shadow-md transform transition-transform duration-300 ${on ? 'translate-x-5' : 'translate-x-0'}`}></div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className={`${bgPanel} p-4 rounded-2xl border-amber-500/30 border animate-pop-in space-y-3`}>
+      <div>
+        <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>世界书名称</label>
+        <input
+          type="text"
+          value={book.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          className={`w-full rounded-lg p-3 text-sm focus:outline-none focus:ring-1 focus:ring-amber-500 ${bgInput}`}
+        />
+      </div>
+      <div>
+        <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>简介</label>
+        <textarea
+          placeholder="这本世界书描述的是..."
+          value={book.description || ''}
+          onChange={(e) => onChange({ description: e.target.value || undefined })}
+          className={`w-full rounded-lg p-3 text-sm h-16 focus:outline-none focus:ring-1 focus:ring-amber-500 resize-none ${bgInput}`}
+        />
+      </div>
+
+      {toggle('启用', '停用后其中的条目不会进入任何聊天', book.enabled, () => onChange({ enabled: !book.enabled }))}
+      {toggle('全局生效', '开启后在所有聊天中生效，无需绑定', !!book.global, () => onChange({ global: !book.global || undefined }))}
+
+      {!book.global && (
+        <div>
+          <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>绑定角色</label>
+          <div className="flex flex-wrap gap-2 mt-1">
+            {contacts.map(contact => {
+              const attached = !!contact.worldBookIds?.includes(book.id);
+              return (
+                <button
+                  key={contact.id}
+                  onClick={() => onToggleContact(contact.id)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                    attached
+                      ? 'bg-amber-500 border-amber-500 text-white shadow-sm'
+                      : (isDark ? 'bg-white/5 border-white/10 text-white/60' : 'bg-white border-slate-200 text-slate-600')
+                  }`}
+                >
+                  {contact.name}
+                </button>
+              );
+            })}
+          </div>
+          <p className={`text-[10px] ml-1 mt-1 ${textTertiary}`}>也可以在聊天设置中只为某一次对话启用</p>
+        </div>
+      )}
+
+      {canDelete && (
+        <button
+          onClick={() => confirmDelete ? onDelete() : setConfirmDelete(true)}
+          className={`w-full py-2 rounded-lg text-xs font-bold ${confirmDelete ? 'bg-red-500 text-white' : 'bg-red-500/10 text-red-400'}`}
+        >
+          {confirmDelete ? `确认删除 (含 ${entryCount} 条设定)` : '删除世界书'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default WorldBookSettings;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Contact, SecondaryKeyLogic, ThemeMode, WorldEntry, WorldEntryPosition } from '../types';
+import { getChangedFields, WorldEntryRevision } from '../services/worldBookHistory';
+import { diffText } from '../services/textDiff';
+import { SECONDARY_LOGIC_LABELS, WORLD_ENTRY_POSITION_LABELS } from '../services/worldActivation';
+
+interface WorldEntryHistoryProps {
+  entry: WorldEntry;
+  revisions: WorldEntryRevision[];
+  contacts: Contact[];
+  theme: ThemeMode;
+  onRestore: (revision: WorldEntryRevision) => void;
+}
+
+const WorldEntryHistory: React.FC<WorldEntryHistoryProps> = ({ entry, revisions, contacts, theme, onRestore }) => {
+  const isDark = theme === 'dark';
+  const textPrimary = isDark ? 'text-white' : 'text-slate-900';
+  const textTertiary = isDark ? 'text-white/40' : 'text-slate-400';
+  const bgCode = isDark ? 'bg-black/40' : 'bg-slate-50';
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const formatValue = (key: keyof WorldEntry, value: unknown) => {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) return '—';
+    if (key === 'scope') return value === 'character' ? '绑定角色' : '全局通用';
+    if (key === 'characterId') return contacts.find(c => c.id === value)?.name || '未知';
+    if (key === 'secondaryLogic') return SECONDARY_LOGIC_LABELS[value as SecondaryKeyLogic];
+    if (key === 'position') return WORLD_ENTRY_POSITION_LABELS[value as WorldEntryPosition];
+    if (typeof value === 'boolean') return value ? '开' : '关';
+    if (Array.isArray(value)) return value.join('，');
+    return String(value);
+  };
+
+  const renderDiff = (revision: WorldEntryRevision) => {
+    const changed = getChangedFields(revision.entry, entry);
+    if (changed.length === 0) {
+      return <p className={`text-xs ${textTertiary}`}>与当前版本相同</p>;
+    }
+    return (
+      <div className="space-y-2">
+        {changed.map(({ key, label }) => (
+          <div key={key} className="text-xs">
+            <div className={`text-[10px] mb-0.5 ${textTertiary}`}>{label}</div>
+            {key === 'content' ? (
+              <div className={`p-2 rounded-lg whitespace-pre-wrap break-words leading-relaxed ${bgCode} ${textPrimary}`}>
+                {diffText(revision.entry.content, entry.content).map((part, i) => (
+                  <span
+                    key={i}
+                    className={part.type === 'added' ? 'bg-green-500/20 text-green-500' : part.type === 'removed' ? 'bg-red-500/20 text-red-400 line-through' : ''}
+                  >
+                    {part.text}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <div className={textPrimary}>
+                <span className="text-red-400 line-through">{formatValue(key, revision.entry[key])}</span>
+                <span className={textTertiary}> → </span>
+                <span className="text-green-500">{formatValue(key, entry[key])}</span>
+              </div>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => { onRestore(revision); setSelectedId(null); }}
+          className="w-full mt-1 py-2 rounded-lg text-xs font-bold bg-amber-500/20 text-amber-500"
+        >
+          恢复此版本
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>修改历史 ({revisions.length})</label>
+      <p className={`text-[10px] ml-1 mb-1 ${textTertiary}`}>点开某个版本查看它与当前内容的差异</p>
+      <div className="space-y-1">
+        {revisions.map((revision, index) => {
+          // Each revision is the state just before the next newer one (or the current entry)
+          const newer = index === 0 ? entry : revisions[index - 1].entry;
+          const labels = getChangedFields(revision.entry, newer).map(f => f.label).join('、');
+          const isOpen = selectedId === revision.id;
+          return (
+            <div key={revision.id} className={`rounded-lg p-2 ${bgCode}`}>
+              <button onClick={() => setSelectedId(isOpen ? null : revision.id)} className="w-full flex justify-between gap-2 text-left">
+                <span className={`text-xs ${textPrimary}`}>{new Date(revision.timestamp).toLocaleString()}</span>
+                <span className={`text-[10px] truncate ${textTertiary}`}>{labels ? `改动: ${labels}` : '无改动'}</span>
+              </button>
+              {isOpen && <div className="mt-2">{renderDiff(revision)}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WorldEntryHistory;
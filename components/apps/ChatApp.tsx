@@ -1,9 +1,23 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { ChatMessage, AppConfig, WorldEntry, Contact, Conversation, ThemeMode, UserPersona } from '../../types';
+import { ChatMessage, AppConfig, WorldEntry, Contact, Conversation, ThemeMode, UserPersona, GenerationParams, TokenUsage, ImageAttachment, WorldBook } from '../../types';
 import { IconChat, IconUsers, IconUser, IconPlus, IconChevronLeft, IconX, IconCheck, IconSettings } from '../Icons';
 import { getGeminiResponseStream } from '../../services/geminiService';
+import { DEFAULT_GENERATION, mergeGenerationParams } from '../../services/generationParams';
+import { StreamChunk } from '../../services/providers';
+import { estimateTokens } from '../../services/tokenBudget';
+import { appendUsage, getMonthlySpend, toUsageRecord, UsageLedger } from '../../services/usage';
+import { deleteAttachment, saveAttachment } from '../../services/attachments';
+import { selectWorldEntries } from '../../services/worldActivation';
+import { collectWorldEntries } from '../../services/worldBooks';
+import { getSummarizedCount, getUnsummarizedMessages, isSummaryStale, needsSummary, pickMessagesToSummarize, summarizeMessages } from '../../services/summary';
+import { pruneInspections } from '../../services/conversations';
+import GenerationParamsForm from '../GenerationParamsForm';
+import PromptInspector from '../PromptInspector';
+import AttachmentImage from '../AttachmentImage';
+import SummaryPanel from '../SummaryPanel';
+import WorldBookAttachPanel from '../WorldBookAttachPanel';
 
 // --- Local Icons ---
 const IconMic = ({ className }: { className?: string }) => (
@@ -135,8 +149,13 @@ interface ChatAppProps {
   config: AppConfig;
   setConfig: React.Dispatch<React.SetStateAction<AppConfig>>;
   worldBook: WorldEntry[];
+  worldBooks: WorldBook[];
   contacts: Contact[];
   setContacts: React.Dispatch<React.SetStateAction<Contact[]>>;
+  conversations: Conversation[];
+  setConversations: React.Dispatch<React.SetStateAction<Conversation[]>>;
+  usageLedger: UsageLedger;
+  setUsageLedger: React.Dispatch<React.SetStateAction<UsageLedger>>;
   theme?: ThemeMode;
 }
 
@@ -144,8 +163,13 @@ const ChatApp: React.FC<ChatAppProps> = ({
   config, 
   setConfig,
   worldBook,
+  worldBooks,
   contacts,
   setContacts,
+  conversations,
+  setConversations,
+  usageLedger,
+  setUsageLedger,
   theme = 'dark'
 }) => {
   const navigate = useNavigate();
@@ -185,11 +209,6 @@ const ChatApp: React.FC<ChatAppProps> = ({
   }, [pathname]);
 
   // --- Local Persistent State ---
-  const [conversations, setConversations] = useState<Conversation[]>(() => {
-    const saved = localStorage.getItem('os26_conversations');
-    return saved ? JSON.parse(saved) : [];
-  });
-
   const [wallet, setWallet] = useState<WalletState>(() => {
     const saved = localStorage.getItem('os26_wallet');
     return saved ? JSON.parse(saved) : DEFAULT_WALLET;
@@ -197,14 +216,22 @@ const ChatApp: React.FC<ChatAppProps> = ({
 
   // Chat Inputs
   const [input, setInput] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<ImageAttachment[]>([]);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
   const [loading, setLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Contact Creation State
   const [showCreateContact, setShowCreateContact] = useState(false);
   const [newContactName, setNewContactName] = useState('');
   const [newContactPrompt, setNewContactPrompt] = useState('');
 
+  // Chat Room Settings Sheet
+  const [showChatSettings, setShowChatSettings] = useState(false);
+  const [showInspector, setShowInspector] = useState(false);
+  const [summarizingId, setSummarizingId] = useState<string | null>(null);
+
   // User Persona State
   const [newPersonaName, setNewPersonaName] = useState('');
   const [showCreatePersona, setShowCreatePersona] = useState(false);
@@ -215,10 +242,6 @@ const ChatApp: React.FC<ChatAppProps> = ({
 
   // --- Effects ---
 
-  useEffect(() => {
-    localStorage.setItem('os26_conversations', JSON.stringify(conversations));
-  }, [conversations]);
-
   useEffect(() => {
     localStorage.setItem('os26_wallet', JSON.stringify(wallet));
   }, [wallet]);
@@ -241,6 +264,13 @@ const ChatApp: React.FC<ChatAppProps> = ({
     }
   }, [activeContactId, conversations, contacts]);
 
+  // Once a reply has finished, fold old history into the long-term summary in the background
+  useEffect(() => {
+    if (loading || summarizingId) return;
+    const conv = conversations.find(c => c.contactId === activeContactId);
+    if (conv && needsSummary(conv, config)) runSummary(conv.id, isSummaryStale(conv));
+  }, [loading, activeContactId]);
+
   useEffect(() => {
     if (activeContactId) {
       setTimeout(() => {
@@ -337,17 +367,41 @@ const ChatApp: React.FC<ChatAppProps> = ({
     }
   };
 
+  const handleAttachmentUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
+    e.target.value = '';
+    for (const file of files) {
+      try {
+        const attachment = await saveAttachment(file);
+        setPendingAttachments(prev => [...prev, attachment]);
+      } catch (error) {
+        alert('图片添加失败: ' + (error instanceof Error ? error.message : '未知错误'));
+      }
+    }
+  };
+
+  const removePendingAttachment = (id: string) => {
+    setPendingAttachments(prev => prev.filter(a => a.id !== id));
+    deleteAttachment(id).catch(error => console.error("Failed to delete attachment:", error));
+  };
+
   const handleSend = async () => {
-    if (!input.trim() || loading || !activeContactId) return;
+    if ((!input.trim() && pendingAttachments.length === 0) || loading || !activeContactId) return;
     let currentConv = conversations.find(c => c.contactId === activeContactId);
     if (!currentConv) return;
     const contact = contacts.find(c => c.id === currentConv.contactId);
     if (!contact) return;
 
+    if (config.monthlySpendLimit && getMonthlySpend(usageLedger, config.modelPrices) >= config.monthlySpendLimit) {
+      alert(`本月花费已达到上限 (${config.monthlySpendLimit})，请在设置 → 用量中调整。`);
+      return;
+    }
+
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
       text: input,
+      attachments: pendingAttachments.length ? pendingAttachments : undefined,
       timestamp: Date.now(),
     };
 
@@ -356,7 +410,7 @@ const ChatApp: React.FC<ChatAppProps> = ({
         return {
           ...c,
           messages: [...c.messages, userMsg],
-          lastMessage: userMsg.text,
+          lastMessage: userMsg.text || '[图片]',
           timestamp: Date.now()
         };
       }
@@ -364,10 +418,19 @@ const ChatApp: React.FC<ChatAppProps> = ({
     }));
 
     setInput('');
+    setPendingAttachments([]);
     setLoading(true);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const modelMsgId = (Date.now() + 1).toString();
+    let accumulatedText = '';
+    let accumulatedReasoning = '';
+    let usage: TokenUsage | undefined;
+    let promptEstimate = 0;
+    let replySource: { answeredBy?: string; model?: string } = {};
+
     try {
-      const modelMsgId = (Date.now() + 1).toString();
       const modelPlaceholder: ChatMessage = {
         id: modelMsgId,
         role: 'model',
@@ -383,28 +446,46 @@ const ChatApp: React.FC<ChatAppProps> = ({
       }));
 
       const specificPrompt = contact.systemPrompt;
-      const relevantWorldBook = worldBook.filter(entry => {
-        if (!entry.active) return false;
-        if (entry.scope === 'character' && entry.characterId !== contact.id) return false;
-        if (entry.triggerKeywords && entry.triggerKeywords.length > 0) {
-           const textToCheck = userMsg.text.toLowerCase();
-           const hasMatch = entry.triggerKeywords.some(kw => textToCheck.includes(kw.toLowerCase()));
-           if (!hasMatch) return false;
-        }
-        return true;
-      });
+      const world = await selectWorldEntries(
+        collectWorldEntries(worldBook, worldBooks, contact, currentConv), userMsg.text, currentConv.messages, config, contact.id, currentConv.worldTimers, controller.signal
+      );
 
+      // Messages folded into the summary are represented by it instead of being resent
       const stream = await getGeminiResponseStream(
         userMsg.text,
-        currentConv.messages,
-        relevantWorldBook,
-        config, 
-        specificPrompt
+        getUnsummarizedMessages(currentConv),
+        world.entries,
+        config,
+        specificPrompt,
+        // Character-level sampling overrides take precedence over the active preset
+        { signal: controller.signal, generationOverride: contact.generation, charName: contact.name, entryReasons: world.reasons, worldBookLoops: world.loops, worldBookSkipped: world.skipped, attachments: userMsg.attachments, summary: isSummaryStale(currentConv) ? undefined : currentConv.summary?.text }
       );
 
-      let accumulatedText = '';
+      promptEstimate = stream.budget.estimatedTokens;
+      replySource = { answeredBy: stream.answeredBy, model: stream.model };
+      setConversations(prev => prev.map(c => {
+        if (c.contactId === activeContactId) {
+          return {
+            ...c,
+            messages: pruneInspections(c.messages.map(m => m.id === modelMsgId
+              ? { ...m, answeredBy: stream.answeredBy, model: stream.model, attempts: stream.attempts, inspection: stream.inspection }
+              : m)),
+            trimmedMessageCount: stream.budget.droppedMessageCount
+          };
+        }
+        return c;
+      }));
+
       for await (const chunk of stream) {
-        const c = chunk as { text: string };
+        const c = chunk as StreamChunk;
+        if (c.usage) usage = c.usage;
+        if (c.type === 'reasoning') {
+          accumulatedReasoning += c.text;
+          setConversations(prev => prev.map(conv => conv.contactId === activeContactId
+            ? { ...conv, messages: conv.messages.map(m => m.id === modelMsgId ? { ...m, reasoning: accumulatedReasoning } : m) }
+            : conv));
+          continue;
+        }
         const text = c.text;
         if (text) {
           accumulatedText += text;
@@ -424,29 +505,127 @@ const ChatApp: React.FC<ChatAppProps> = ({
           }));
         }
       }
+
+      // Timers only advance for a turn that produced a reply; failed or stopped sends leave them as they were
+      if (!controller.signal.aborted && (accumulatedText || accumulatedReasoning)) {
+        setConversations(prev => prev.map(c => c.contactId === activeContactId ? { ...c, worldTimers: world.timers } : c));
+      }
     } catch (error) {
+      // A user-initiated stop is not an error; the partial reply is finalized below
+      if (!controller.signal.aborted) {
+        setConversations(prev => prev.map(c => {
+          if (c.contactId === activeContactId) {
+            const errMsg: ChatMessage = {
+              id: Date.now().toString(),
+              role: 'model',
+              text: '连接失败: ' + (error instanceof Error ? error.message : '未知错误'),
+              timestamp: Date.now()
+            };
+            return {
+              ...c,
+              messages: [...c.messages, errMsg],
+              lastMessage: '[错误]',
+              timestamp: Date.now()
+            };
+          }
+          return c;
+        }));
+      }
+    } finally {
+      // Drop the placeholder if nothing arrived, otherwise flag a cancelled reply as partial.
+      // Stopped or usage-less replies still cost tokens, so fall back to a local estimate.
+      const stopped = controller.signal.aborted;
+      const finalUsage: TokenUsage = usage || {
+        promptTokens: promptEstimate,
+        completionTokens: estimateTokens(accumulatedReasoning) + estimateTokens(accumulatedText),
+        estimated: true
+      };
       setConversations(prev => prev.map(c => {
         if (c.contactId === activeContactId) {
-          const errMsg: ChatMessage = {
-            id: Date.now().toString(),
-            role: 'model',
-            text: '连接失败: ' + (error instanceof Error ? error.message : '未知错误'),
-            timestamp: Date.now()
-          };
-          return {
-            ...c,
-            messages: [...c.messages, errMsg],
-            lastMessage: '[错误]',
-            timestamp: Date.now()
-          };
+          const messages = accumulatedText || accumulatedReasoning
+            ? c.messages.map(m => m.id === modelMsgId ? {
+                ...m,
+                usage: finalUsage,
+                ...(stopped ? { stopped: true } : {})
+              } : m)
+            : c.messages.filter(m => m.id !== modelMsgId);
+          return { ...c, messages };
         }
         return c;
       }));
-    } finally {
+      if (accumulatedText || accumulatedReasoning) {
+        setUsageLedger(prev => appendUsage(prev, toUsageRecord(contact.id, finalUsage, { ...replySource, timestamp: Date.now() })));
+      }
+      abortControllerRef.current = null;
       setLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Incremental runs extend the summary with newly aged-out messages; a rebuild starts over from the first message
+  const runSummary = async (convId: string, rebuild: boolean) => {
+    const conv = conversations.find(c => c.id === convId);
+    const contact = contacts.find(c => c.id === conv?.contactId);
+    if (!conv || !contact) return;
+    const toSummarize = pickMessagesToSummarize(rebuild ? conv.messages : getUnsummarizedMessages(conv));
+    if (toSummarize.length === 0) return;
+    // Summaries are billed like replies, so they stop at the monthly cap too
+    if (config.monthlySpendLimit && getMonthlySpend(usageLedger, config.modelPrices) >= config.monthlySpendLimit) {
+      if (rebuild) alert(`本月花费已达到上限 (${config.monthlySpendLimit})，请在设置 → 用量中调整。`);
+      return;
+    }
+
+    setSummarizingId(convId);
+    try {
+      const text = await summarizeMessages(
+        rebuild ? undefined : conv.summary?.text,
+        toSummarize,
+        config,
+        { user: config.userPersonas?.find(p => p.id === config.currentPersonaId)?.name || config.userName, char: contact.name },
+        usage => setUsageLedger(prev => appendUsage(prev, toUsageRecord(contact.id, usage, { model: config.model, timestamp: Date.now() })))
+      );
+      setConversations(prev => prev.map(c => c.id === convId ? {
+        ...c,
+        summary: {
+          text,
+          coveredUntilId: toSummarize[toSummarize.length - 1].id,
+          coveredUntil: toSummarize[toSummarize.length - 1].timestamp,
+          updatedAt: Date.now(),
+          locked: c.summary?.locked
+        }
+      } : c));
+    } catch (error) {
+      console.error("Failed to summarize conversation:", error);
+      if (rebuild) alert('总结失败: ' + (error instanceof Error ? error.message : '未知错误'));
+    } finally {
+      setSummarizingId(null);
+    }
+  };
+
+  const updateSummary = (convId: string, patch: { text?: string; locked?: boolean }) => {
+    setConversations(prev => prev.map(c => c.id === convId && c.summary
+      ? { ...c, summary: { ...c.summary, ...patch, updatedAt: patch.text !== undefined ? Date.now() : c.summary.updatedAt } }
+      : c));
+  };
+
+  const updateContactGeneration = (contactId: string, generation?: GenerationParams) => {
+    setContacts(prev => prev.map(c => c.id === contactId ? { ...c, generation } : c));
+  };
+
+  const toggleId = (ids: string[] | undefined, id: string) =>
+    ids?.includes(id) ? ids.filter(i => i !== id) : [...(ids || []), id];
+
+  const toggleContactBook = (contactId: string, bookId: string) => {
+    setContacts(prev => prev.map(c => c.id === contactId ? { ...c, worldBookIds: toggleId(c.worldBookIds, bookId) } : c));
+  };
+
+  const toggleConversationBook = (convId: string, bookId: string) => {
+    setConversations(prev => prev.map(c => c.id === convId ? { ...c, worldBookIds: toggleId(c.worldBookIds, bookId) } : c));
+  };
+
   // --- Render Wallet Components ---
 
   const renderWalletBalance = () => {
@@ -1311,36 +1490,71 @@ const ChatApp: React.FC<ChatAppProps> = ({
           <button onClick={() => navigate('/chat')} className={`p-2 -ml-2 ${textPrimary}`}>
             <IconChevronLeft className="w-6 h-6" />
           </button>
-          <span className={`font-medium text-[17px] ${textPrimary}`}>{contact?.name || '未知'}</span>
-          <button className={`p-2 -mr-2 ${textPrimary}`}>
+          <div className="flex flex-col items-center leading-tight">
+            <span className={`font-medium text-[17px] ${textPrimary}`}>{contact?.name || '未知'}</span>
+            {!!activeConv.trimmedMessageCount && (
+              <span className={`text-[10px] ${textTertiary}`}>上下文已省略 {activeConv.trimmedMessageCount} 条早期消息</span>
+            )}
+          </div>
+          <button onClick={() => setShowChatSettings(true)} className={`p-2 -mr-2 ${textPrimary}`}>
             <IconMoreHorizontal className="w-6 h-6" />
           </button>
         </div>
 
         <div className={`flex-1 overflow-y-auto p-4 space-y-4 no-scrollbar`}>
           {activeConv.messages.map((msg) => (
-            <div
-              key={msg.id}
-              className={`flex items-start ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
-              {msg.role === 'model' && (
-                <div className={`w-10 h-10 rounded mr-2 shrink-0 ${contact?.avatar} flex items-center justify-center text-sm font-bold text-white shadow-sm`}>
-                  {contact?.name[0]}
-                </div>
-              )}
+            <React.Fragment key={msg.id}>
               <div
-                className={`max-w-[70%] p-2.5 rounded-lg text-[15px] leading-relaxed relative break-words ${
-                  msg.role === 'user' ? wcBubbleUser : wcBubbleOther
-                }`}
+                className={`flex items-start ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
               >
-                {msg.text}
-              </div>
-              {msg.role === 'user' && (
-                  <div className={`w-10 h-10 rounded ml-2 shrink-0 ${config.userPersonas?.find(p => p.id === config.currentPersonaId)?.avatar || 'bg-gray-500'} flex items-center justify-center text-sm font-bold text-white shadow-sm hidden sm:flex`}>
-                      {config.userName[0]}
+                {msg.role === 'model' && (
+                  <div className={`w-10 h-10 rounded mr-2 shrink-0 ${contact?.avatar} flex items-center justify-center text-sm font-bold text-white shadow-sm`}>
+                    {contact?.name[0]}
                   </div>
+                )}
+                <div
+                  className={`max-w-[70%] p-2.5 rounded-lg text-[15px] leading-relaxed relative break-words ${
+                    msg.role === 'user' ? wcBubbleUser : wcBubbleOther
+                  }`}
+                >
+                  {msg.reasoning && (
+                    <details className={`mb-1.5 text-[13px] ${textSecondary}`} open={!msg.text}>
+                      <summary className="cursor-pointer select-none text-xs">思考过程</summary>
+                      <div className={`mt-1 pl-2 border-l-2 whitespace-pre-wrap ${isDark ? 'border-white/20' : 'border-black/10'}`}>{msg.reasoning}</div>
+                    </details>
+                  )}
+                  {msg.attachments && msg.attachments.length > 0 && (
+                    <div className={`flex flex-col gap-1.5 ${msg.text ? 'mb-1.5' : ''}`}>
+                      {msg.attachments.map(attachment => (
+                        <AttachmentImage key={attachment.id} attachment={attachment} className="max-w-[240px] w-full" />
+                      ))}
+                    </div>
+                  )}
+                  {msg.text}
+                  {msg.stopped && (
+                    <div className={`text-[11px] mt-1 ${textTertiary}`}>已停止生成</div>
+                  )}
+                  {msg.answeredBy && (
+                    <div className={`text-[10px] mt-1 ${textTertiary}`}>
+                      {msg.answeredBy}{msg.attempts && msg.attempts > 1 ? ` · 第 ${msg.attempts} 次尝试` : ''}
+                      {msg.usage && ` · ${msg.usage.estimated ? '≈' : ''}${msg.usage.promptTokens}+${msg.usage.completionTokens} tokens`}
+                    </div>
+                  )}
+                </div>
+                {msg.role === 'user' && (
+                    <div className={`w-10 h-10 rounded ml-2 shrink-0 ${config.userPersonas?.find(p => p.id === config.currentPersonaId)?.avatar || 'bg-gray-500'} flex items-center justify-center text-sm font-bold text-white shadow-sm hidden sm:flex`}>
+                        {config.userName[0]}
+                    </div>
+                )}
+              </div>
+              {msg.id === activeConv.summary?.coveredUntilId && (
+                <div className={`flex items-center gap-2 text-[11px] ${textTertiary}`}>
+                  <div className={`flex-1 h-px ${isDark ? 'bg-white/10' : 'bg-black/10'}`}></div>
+                  以上 {getSummarizedCount(activeConv)} 条消息已总结为长期记忆
+                  <div className={`flex-1 h-px ${isDark ? 'bg-white/10' : 'bg-black/10'}`}></div>
+                </div>
               )}
-            </div>
+            </React.Fragment>
           ))}
           {loading && activeConv.messages[activeConv.messages.length - 1]?.role === 'user' && (
              <div className="flex justify-start items-center">
@@ -1358,6 +1572,22 @@ const ChatApp: React.FC<ChatAppProps> = ({
         </div>
 
         <div className={`px-2 py-2 shrink-0 border-t ${wcInputBg} pb-[calc(8px+env(safe-area-inset-bottom))]`}>
+           {pendingAttachments.length > 0 && (
+             <div className="flex gap-2 overflow-x-auto no-scrollbar px-1 pb-2">
+               {pendingAttachments.map(attachment => (
+                 <div key={attachment.id} className="relative shrink-0">
+                   <AttachmentImage attachment={attachment} className="h-16 w-16" />
+                   <button
+                     onClick={() => removePendingAttachment(attachment.id)}
+                     className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-black/60 text-white flex items-center justify-center"
+                   >
+                     <IconX className="w-3 h-3" />
+                   </button>
+                 </div>
+               ))}
+             </div>
+           )}
+           <input type="file" ref={attachmentInputRef} onChange={handleAttachmentUpload} className="hidden" accept="image/*" multiple />
            <div className="flex items-end gap-2">
              <button className={`p-2 mb-0.5 ${textSecondary}`}>
                 <IconMic className="w-7 h-7" />
@@ -1374,7 +1604,14 @@ const ChatApp: React.FC<ChatAppProps> = ({
              <button className={`p-2 mb-0.5 ${textSecondary}`}>
                 <IconFace className="w-7 h-7" />
              </button>
-             {input.trim() ? (
+             {loading ? (
+                <button 
+                  onClick={handleStop}
+                  className="mb-1 px-4 py-1.5 bg-red-500 text-white font-medium rounded-md text-sm whitespace-nowrap"
+                >
+                  停止
+                </button>
+             ) : input.trim() || pendingAttachments.length > 0 ? (
                 <button 
                   onClick={handleSend} 
                   disabled={loading}
@@ -1383,12 +1620,77 @@ const ChatApp: React.FC<ChatAppProps> = ({
                   发送
                 </button>
              ) : (
-                <button className={`p-2 mb-0.5 ${textSecondary}`}>
+                <button onClick={() => attachmentInputRef.current?.click()} className={`p-2 mb-0.5 ${textSecondary}`}>
                    <IconAddCircle className="w-7 h-7" />
                 </button>
              )}
            </div>
         </div>
+
+        {showChatSettings && (
+          <div className={`absolute inset-0 z-50 p-6 flex flex-col animate-fade-in overflow-y-auto no-scrollbar ${isDark ? 'bg-slate-900/95 backdrop-blur-xl' : 'bg-white/95 backdrop-blur-xl'}`}>
+            <div className="flex justify-between items-center mb-6">
+               <h3 className={`text-lg font-bold ${textPrimary}`}>聊天设置</h3>
+               <button onClick={() => setShowChatSettings(false)} className={`p-2 rounded-full ${isDark ? 'bg-white/10' : 'bg-slate-100'}`}>
+                 <IconX className={`w-5 h-5 ${textPrimary}`} />
+               </button>
+            </div>
+
+            <button
+              onClick={() => setShowInspector(true)}
+              className={`${bgPanel} p-4 rounded-2xl mb-4 flex justify-between items-center text-left`}
+            >
+              <div>
+                <div className={`text-sm font-medium ${textPrimary}`}>提示词检查器</div>
+                <div className={`text-[10px] ${textSecondary}`}>查看每轮回复实际发送的系统指令、世界书、历史与参数</div>
+              </div>
+              <IconChevronLeft className={`w-4 h-4 rotate-180 ${textSecondary}`} />
+            </button>
+
+            <SummaryPanel
+              summary={activeConv.summary}
+              summarizedCount={getSummarizedCount(activeConv)}
+              stale={isSummaryStale(activeConv)}
+              pendingCount={pickMessagesToSummarize(getUnsummarizedMessages(activeConv)).length}
+              summarizing={summarizingId === activeConv.id}
+              theme={theme}
+              onEdit={(text) => updateSummary(activeConv.id, { text })}
+              onToggleLock={() => updateSummary(activeConv.id, { locked: !activeConv.summary?.locked })}
+              onRegenerate={() => runSummary(activeConv.id, true)}
+            />
+
+            <WorldBookAttachPanel
+              books={worldBooks}
+              contact={contact}
+              conversation={activeConv}
+              theme={theme}
+              onToggleContact={(bookId) => toggleContactBook(contact.id, bookId)}
+              onToggleConversation={(bookId) => toggleConversationBook(activeConv.id, bookId)}
+            />
+
+            <div className={`${bgPanel} p-4 rounded-2xl`}>
+              <div className="flex justify-between items-center mb-3">
+                <h4 className={`text-xs font-bold ${textSecondary}`}>生成参数 (覆盖当前预设)</h4>
+                {contact.generation && (
+                  <button onClick={() => updateContactGeneration(contact.id, undefined)} className="text-xs text-red-400">
+                    清除覆盖
+                  </button>
+                )}
+              </div>
+              <GenerationParamsForm
+                value={contact.generation || {}}
+                onChange={(generation) => updateContactGeneration(contact.id, generation)}
+                provider={config.provider}
+                theme={theme}
+                placeholders={mergeGenerationParams(DEFAULT_GENERATION, config.generation)}
+              />
+            </div>
+          </div>
+        )}
+
+        {showInspector && (
+          <PromptInspector messages={activeConv.messages} theme={theme} onClose={() => setShowInspector(false)} />
+        )}
       </div>
     );
   };
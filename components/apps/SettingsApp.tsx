@@ -1,22 +1,40 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { AppConfig, ThemeMode, ApiPreset } from '../../types';
-import { IconCpu, IconPalette, IconInfo, IconX, IconCheck, IconPlus, IconTrash } from '../Icons';
+import { AppConfig, ThemeMode, ApiPreset, ApiProvider, Contact, Conversation, ModelCatalog } from '../../types';
+import { IconCpu, IconPalette, IconInfo, IconX, IconCheck, IconPlus, IconTrash, IconChart } from '../Icons';
 import { validateAndListModels } from '../../services/geminiService';
+import { PROVIDER_LABELS } from '../../services/providers';
+import { DEFAULT_CONTEXT_SIZE, DEFAULT_RESPONSE_RESERVE, WORLD_BOOK_SHARE } from '../../services/tokenBudget';
+import { DEFAULT_GENERATION } from '../../services/generationParams';
+import { DEFAULT_MAX_RETRIES } from '../../services/retry';
+import { filterModels, formatContextLength, getCatalogKey, loadModelCatalog, ModalityFilter } from '../../services/modelCatalog';
+import { DEFAULT_TOP_K } from '../../services/embeddings';
+import { DEFAULT_MAX_RECURSION, DEFAULT_SCAN_DEPTH } from '../../services/worldActivation';
+import { DEFAULT_SUMMARY_THRESHOLD } from '../../services/summary';
+import { UsageLedger } from '../../services/usage';
+import GenerationParamsForm from '../GenerationParamsForm';
+import MockSettingsForm from '../MockSettingsForm';
+import EndpointSettingsForm from '../EndpointSettingsForm';
+import UsageDashboard from '../UsageDashboard';
 
 interface SettingsAppProps {
   config: AppConfig;
   setConfig: React.Dispatch<React.SetStateAction<AppConfig>>;
   theme: ThemeMode;
   setTheme: React.Dispatch<React.SetStateAction<ThemeMode>>;
+  contacts: Contact[];
+  conversations: Conversation[];
+  usageLedger: UsageLedger;
   closeApp: () => void;
 }
 
-const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, setTheme, closeApp: _closeApp }) => {
+type SettingsTab = 'general' | 'usage' | 'appearance' | 'about';
+
+const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, setTheme, contacts, conversations, usageLedger, closeApp: _closeApp }) => {
   const navigate = useNavigate();
   // Init activeTab from localStorage to restore state on re-entry
-  const [activeTab, setActiveTab] = useState<'general' | 'appearance' | 'about'>(() => {
-    return (localStorage.getItem('os26_settings_tab') as 'general' | 'appearance' | 'about') || 'general';
+  const [activeTab, setActiveTab] = useState<SettingsTab>(() => {
+    return (localStorage.getItem('os26_settings_tab') as SettingsTab) || 'general';
   });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -36,13 +54,19 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
   const [inputKey, setInputKey] = useState(config.customApiKey || '');
   const [presetName, setPresetName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  // Model lists are cached per endpoint, so the picker works without fetching again
+  const catalogKey = getCatalogKey(config.provider, inputUrl, config.endpoint);
+  const [catalog, setCatalog] = useState<ModelCatalog | undefined>(() => loadModelCatalog(catalogKey));
+  const [modelQuery, setModelQuery] = useState('');
+  const [modalityFilter, setModalityFilter] = useState<ModalityFilter>('all');
+  useEffect(() => setCatalog(loadModelCatalog(catalogKey)), [catalogKey]);
+  const visibleModels = catalog ? filterModels(catalog.models, modelQuery, modalityFilter) : [];
   const [connectionStatus, setConnectionStatus] = useState<'none' | 'success' | 'error'>('none');
   const [statusMessage, setStatusMessage] = useState('');
   const [saveBtnText, setSaveBtnText] = useState('保存');
 
   const handleTestConnection = async () => {
-    if (!inputKey.trim()) {
+    if (!inputKey.trim() && config.provider !== 'mock') {
       setConnectionStatus('error');
       setStatusMessage('请输入 API Key (密码)');
       return;
@@ -51,19 +75,18 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
     setIsLoading(true);
     setConnectionStatus('none');
     try {
-      const models = await validateAndListModels(inputUrl, inputKey);
-      setAvailableModels(models);
+      const models = await validateAndListModels(inputUrl, inputKey, config.provider, config.endpoint);
+      setCatalog(loadModelCatalog(catalogKey));
       setConnectionStatus('success');
       setStatusMessage(`连接成功! 获取到 ${models.length} 个模型。`);
       
       // Auto-select first model if current is invalid
-      if (models.length > 0 && !models.includes(config.model)) {
-         setConfig(prev => ({ ...prev, model: models[0] }));
+      if (models.length > 0 && !models.some(m => m.id === config.model)) {
+         setConfig(prev => ({ ...prev, model: models[0].id }));
       }
     } catch (err) {
       setConnectionStatus('error');
       setStatusMessage('连接失败: 检查 URL 或 密码');
-      setAvailableModels([]);
     } finally {
       setIsLoading(false);
     }
@@ -78,9 +101,17 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
     const newPreset: ApiPreset = {
       id: Date.now().toString(),
       name: presetName,
+      provider: config.provider || 'openai',
       apiUrl: inputUrl,
       apiKey: inputKey,
-      model: config.model
+      model: config.model,
+      endpoint: config.endpoint,
+      contextSize: config.contextSize,
+      responseReserve: config.responseReserve,
+      generation: config.generation,
+      disableStreaming: config.disableStreaming,
+      mock: config.mock,
+      embeddingModel: config.embeddingModel
     };
 
     setConfig(prev => ({
@@ -98,7 +129,7 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
     if (presetId === 'default') {
       setInputUrl('');
       setInputKey('');
-      setConfig(prev => ({ ...prev, customApiUrl: '', customApiKey: '', model: 'gemini-3-flash-preview' }));
+      setConfig(prev => ({ ...prev, provider: 'gemini', customApiUrl: '', customApiKey: '', model: 'gemini-3-flash-preview', endpoint: undefined, contextSize: undefined, responseReserve: undefined, generation: undefined, disableStreaming: undefined, mock: undefined, embeddingModel: undefined }));
       return;
     }
 
@@ -108,9 +139,17 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
       setInputKey(preset.apiKey);
       setConfig(prev => ({ 
          ...prev, 
+         provider: preset.provider || 'openai',
          customApiUrl: preset.apiUrl, 
          customApiKey: preset.apiKey,
-         model: preset.model
+         model: preset.model,
+         endpoint: preset.endpoint,
+         contextSize: preset.contextSize,
+         responseReserve: preset.responseReserve,
+         generation: preset.generation,
+         disableStreaming: preset.disableStreaming,
+         mock: preset.mock,
+         embeddingModel: preset.embeddingModel
       }));
     }
   };
@@ -119,10 +158,42 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
     e.stopPropagation();
     setConfig(prev => ({
       ...prev,
-      presets: prev.presets.filter(p => p.id !== id)
+      presets: prev.presets.filter(p => p.id !== id),
+      fallbackPresetIds: prev.fallbackPresetIds?.filter(fid => fid !== id)
     }));
   };
 
+  const addFallbackPreset = (id: string) => {
+    if (!id) return;
+    setConfig(prev => ({
+      ...prev,
+      fallbackPresetIds: [...(prev.fallbackPresetIds || []).filter(fid => fid !== id), id]
+    }));
+  };
+
+  const removeFallbackPreset = (id: string) => {
+    setConfig(prev => ({
+      ...prev,
+      fallbackPresetIds: (prev.fallbackPresetIds || []).filter(fid => fid !== id)
+    }));
+  };
+
+  const moveFallbackPreset = (index: number, direction: -1 | 1) => {
+    setConfig(prev => {
+      const ids = [...(prev.fallbackPresetIds || [])];
+      const target = index + direction;
+      if (target < 0 || target >= ids.length) return prev;
+      [ids[index], ids[target]] = [ids[target], ids[index]];
+      return { ...prev, fallbackPresetIds: ids };
+    });
+  };
+
+  const selectProvider = (provider: ApiProvider) => {
+      setConfig(prev => ({ ...prev, provider }));
+      setConnectionStatus('none');
+      setStatusMessage('');
+  };
+
   const applyChanges = () => {
       setConfig(prev => ({
           ...prev,
@@ -191,12 +262,13 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
         <div className="flex gap-2 mb-6 overflow-x-auto">
           {[
             { id: 'general', icon: <IconCpu className="w-4 h-4" />, label: 'API / 通用' },
+            { id: 'usage', icon: <IconChart className="w-4 h-4" />, label: '用量' },
             { id: 'appearance', icon: <IconPalette className="w-4 h-4" />, label: '外观' },
             { id: 'about', icon: <IconInfo className="w-4 h-4" />, label: '手册' },
           ].map((tab) => (
             <button
               key={tab.id}
-              onClick={() => setActiveTab(tab.id as 'general' | 'appearance' | 'about')}
+              onClick={() => setActiveTab(tab.id as SettingsTab)}
               className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${
                 activeTab === tab.id
                   ? (isDark ? 'bg-white text-black shadow-lg' : 'bg-slate-900 text-white shadow-lg')
@@ -234,7 +306,10 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
                      <div className="space-y-2 mt-2 max-h-32 overflow-y-auto">
                          {config.presets.map(p => (
                              <div key={p.id} className={`flex justify-between items-center p-2 rounded text-xs ${isDark ? 'bg-white/5' : 'bg-slate-100'}`}>
-                                 <span className={textPrimary}>{p.name}</span>
+                                 <span className={textPrimary}>
+                                     {p.name}
+                                     <span className={`ml-2 ${textSecondary}`}>{PROVIDER_LABELS[p.provider || 'openai']}</span>
+                                 </span>
                                  <button onClick={(e) => deletePreset(p.id, e)} className="text-red-400 hover:text-red-300">
                                      <IconTrash className="w-3 h-3" />
                                  </button>
@@ -244,11 +319,74 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
                  )}
               </div>
 
+              {/* Retry & Fallback */}
+              <div className={`${bgPanel} p-5 rounded-2xl`}>
+                 <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>重试与备用预设</h2>
+                 <div className="flex items-center justify-between mb-3">
+                    <span className={`text-sm ${textPrimary}`}>失败重试次数</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      placeholder={String(DEFAULT_MAX_RETRIES)}
+                      value={config.maxRetries ?? ''}
+                      onChange={(e) => setConfig(prev => ({ ...prev, maxRetries: e.target.value ? Math.max(parseInt(e.target.value), 0) : undefined }))}
+                      className={`w-20 rounded-lg p-2 text-sm text-center focus:outline-none border font-mono ${bgInput}`}
+                    />
+                 </div>
+
+                 {(config.fallbackPresetIds || []).length > 0 && (
+                     <div className="space-y-2 mb-3">
+                         {(config.fallbackPresetIds || []).map((id, index) => {
+                             const preset = config.presets?.find(p => p.id === id);
+                             if (!preset) return null;
+                             return (
+                                 <div key={id} className={`flex items-center gap-2 p-2 rounded text-xs ${isDark ? 'bg-white/5' : 'bg-slate-100'}`}>
+                                     <span className={`w-4 text-center ${textSecondary}`}>{index + 1}</span>
+                                     <span className={`flex-1 ${textPrimary}`}>{preset.name}</span>
+                                     <button onClick={() => moveFallbackPreset(index, -1)} className={textSecondary}>↑</button>
+                                     <button onClick={() => moveFallbackPreset(index, 1)} className={textSecondary}>↓</button>
+                                     <button onClick={() => removeFallbackPreset(id)} className="text-red-400 hover:text-red-300">
+                                         <IconX className="w-3 h-3" />
+                                     </button>
+                                 </div>
+                             );
+                         })}
+                     </div>
+                 )}
+
+                 <select
+                    value=""
+                    onChange={(e) => addFallbackPreset(e.target.value)}
+                    className={`w-full rounded-lg p-3 text-sm focus:outline-none border ${bgInput}`}
+                 >
+                    <option value="" disabled>添加备用预设...</option>
+                    {config.presets?.filter(p => !config.fallbackPresetIds?.includes(p.id)).map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                 </select>
+                 <p className={`text-[10px] mt-2 ${textSecondary}`}>遇到 429 / 5xx 等临时错误时按指数退避自动重试；仍失败则按顺序切换到备用预设。</p>
+              </div>
+
               {/* API Connection Form */}
               <div className={`${bgPanel} p-5 rounded-2xl`}>
                 <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>自定义连接</h2>
                 
                 <div className="space-y-4">
+                    <div>
+                        <label className={`block text-[10px] mb-1 ${textSecondary}`}>接口类型</label>
+                        <div className={`grid grid-cols-2 gap-1 rounded-lg p-1 ${isDark ? 'bg-black/40' : 'bg-slate-200'}`}>
+                          {(Object.keys(PROVIDER_LABELS) as ApiProvider[]).map(p => (
+                            <button
+                              key={p}
+                              onClick={() => selectProvider(p)}
+                              className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-all ${(config.provider || 'openai') === p ? (isDark ? 'bg-white/20 text-white shadow-sm' : 'bg-white text-slate-900 shadow-sm') : 'text-slate-500'}`}
+                            >
+                              {PROVIDER_LABELS[p]}
+                            </button>
+                          ))}
+                        </div>
+                    </div>
                     <div>
                         <label className={`block text-[10px] mb-1 ${textSecondary}`}>API URL (支持反代 / 可选)</label>
                         <input
@@ -272,6 +410,28 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
                         />
                     </div>
 
+                    {config.provider !== 'mock' && (
+                        <EndpointSettingsForm
+                          value={config.endpoint}
+                          onChange={(endpoint) => setConfig(prev => ({ ...prev, endpoint }))}
+                          provider={config.provider}
+                          theme={theme}
+                        />
+                    )}
+
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <span className={`text-sm ${textPrimary}`}>非流式模式</span>
+                            <p className={`text-[10px] ${textSecondary}`}>接口不支持 stream: true 时开启，回复将一次性显示</p>
+                        </div>
+                        <div 
+                          onClick={(e) => { e.stopPropagation(); setConfig(prev => ({ ...prev, disableStreaming: !prev.disableStreaming })); }}
+                          className={`w-14 h-8 shrink-0 rounded-full p-1 cursor-pointer transition-colors duration-300 ${config.disableStreaming ? 'bg-green-500' : (isDark ? 'bg-slate-700' : 'bg-gray-200')}`}
+                        >
+                           <div className={`w-6 h-6 rounded-full bg-white shadow-md transform transition-transform duration-300 ${config.disableStreaming ? 'translate-x-6' : 'translate-x-0'}`}></div>
+                        </div>
+                    </div>
+
                     <div className="flex gap-2">
                         <button 
                             onClick={handleTestConnection}
@@ -297,25 +457,217 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
                 </div>
               </div>
 
+              {/* Offline Mock Provider */}
+              {config.provider === 'mock' && (
+                <div className={`${bgPanel} p-5 rounded-2xl`}>
+                  <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>离线模拟</h2>
+                  <MockSettingsForm
+                    value={config.mock}
+                    onChange={(mock) => setConfig(prev => ({ ...prev, mock }))}
+                    conversations={conversations}
+                    theme={theme}
+                  />
+                  <p className={`text-[10px] mt-2 ${textSecondary}`}>无需网络与 API Key，用于演示与界面调试。</p>
+                </div>
+              )}
+
               {/* Model Selection (Dependent on connection) */}
-              <div className={`${bgPanel} p-5 rounded-2xl transition-opacity ${connectionStatus === 'success' || availableModels.length > 0 ? 'opacity-100' : 'opacity-100'}`}>
-                <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>模型选择</h2>
-                <div className="relative">
-                    <select
-                        value={config.model}
-                        onChange={(e) => setConfig({ ...config, model: e.target.value })}
-                        className={`w-full rounded-lg p-3 text-sm focus:outline-none border appearance-none ${bgInput}`}
-                    >
-                        {availableModels.length > 0 ? (
-                            availableModels.map(m => (
-                                <option key={m} value={m}>{m}</option>
-                            ))
-                        ) : (
-                            <option value={config.model || ""}>{config.model ? `${config.model} (未连接)` : "无 (请先连接)"}</option>
-                        )}
-                    </select>
-                    <div className={`absolute right-3 top-3 pointer-events-none ${isDark ? 'text-white/50' : 'text-slate-400'}`}>▼</div>
+              <div className={`${bgPanel} p-5 rounded-2xl`}>
+                <div className="flex justify-between items-baseline mb-4">
+                    <h2 className={`text-xs font-bold uppercase tracking-wider ${textSecondary}`}>模型选择</h2>
+                    {catalog && (
+                        <span className={`text-[10px] ${textSecondary}`}>目录更新于 {new Date(catalog.fetchedAt).toLocaleString()}</span>
+                    )}
                 </div>
+                {catalog && catalog.models.length > 0 ? (
+                    <>
+                        <div className="flex gap-2 mb-3">
+                            <input
+                              type="text"
+                              placeholder="搜索模型..."
+                              value={modelQuery}
+                              onChange={(e) => setModelQuery(e.target.value)}
+                              className={`flex-1 min-w-0 rounded-lg p-2 text-sm focus:outline-none border ${bgInput}`}
+                            />
+                            <div className={`flex shrink-0 rounded-lg p-1 ${isDark ? 'bg-black/40' : 'bg-slate-200'}`}>
+                              {([['all', '全部'], ['image', '识图']] as [ModalityFilter, string][]).map(([id, label]) => (
+                                <button
+                                  key={id}
+                                  onClick={() => setModalityFilter(id)}
+                                  className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${modalityFilter === id ? (isDark ? 'bg-white/20 text-white shadow-sm' : 'bg-white text-slate-900 shadow-sm') : 'text-slate-500'}`}
+                                >
+                                  {label}
+                                </button>
+                              ))}
+                            </div>
+                        </div>
+                        <div className="space-y-1 max-h-60 overflow-y-auto no-scrollbar">
+                            {visibleModels.map(m => (
+                                <button
+                                  key={m.id}
+                                  onClick={() => setConfig(prev => ({ ...prev, model: m.id }))}
+                                  className={`w-full text-left p-2 rounded-lg text-xs flex justify-between items-center gap-2 transition-colors ${config.model === m.id ? 'bg-blue-500/20 ring-1 ring-blue-500' : (isDark ? 'bg-white/5 hover:bg-white/10' : 'bg-slate-100 hover:bg-slate-200')}`}
+                                >
+                                    <span className="min-w-0">
+                                        <span className={`block font-mono truncate ${textPrimary}`}>{m.id}</span>
+                                        {m.name && m.name !== m.id && <span className={`block truncate ${textSecondary}`}>{m.name}</span>}
+                                    </span>
+                                    <span className={`shrink-0 text-right text-[10px] ${textSecondary}`}>
+                                        {!!m.contextLength && <span className="block">{formatContextLength(m.contextLength)} 上下文</span>}
+                                        {m.inputModalities?.includes('image') && <span className="block">识图</span>}
+                                        {m.pricing && <span className="block">{+m.pricing.input.toFixed(3)} / {+m.pricing.output.toFixed(3)}</span>}
+                                    </span>
+                                </button>
+                            ))}
+                            {visibleModels.length === 0 && (
+                                <p className={`text-xs text-center py-4 ${textSecondary}`}>没有匹配的模型</p>
+                            )}
+                        </div>
+                    </>
+                ) : (
+                    <div className={`w-full rounded-lg p-3 text-sm border ${bgInput}`}>
+                        {config.model ? `${config.model} (未拉取模型列表)` : "无 (请先连接)"}
+                    </div>
+                )}
+                <p className={`text-[10px] mt-2 ${textSecondary}`}>价格单位为每百万 tokens；发现的上下文长度会在未手动设置时用于裁剪历史。</p>
+              </div>
+
+              {/* Context Window */}
+              <div className={`${bgPanel} p-5 rounded-2xl`}>
+                <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>上下文窗口</h2>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={`block text-[10px] mb-1 ${textSecondary}`}>上下文长度 (tokens)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          placeholder={String(catalog?.models.find(m => m.id === config.model)?.contextLength || DEFAULT_CONTEXT_SIZE)}
+                          value={config.contextSize ?? ''}
+                          onChange={(e) => setConfig(prev => ({ ...prev, contextSize: e.target.value ? parseInt(e.target.value) : undefined }))}
+                          className={`w-full rounded-lg p-3 text-sm focus:outline-none border font-mono ${bgInput}`}
+                        />
+                    </div>
+                    <div>
+                        <label className={`block text-[10px] mb-1 ${textSecondary}`}>回复预留 (tokens)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          placeholder={String(DEFAULT_RESPONSE_RESERVE)}
+                          value={config.responseReserve ?? ''}
+                          onChange={(e) => setConfig(prev => ({ ...prev, responseReserve: e.target.value ? parseInt(e.target.value) : undefined }))}
+                          className={`w-full rounded-lg p-3 text-sm focus:outline-none border font-mono ${bgInput}`}
+                        />
+                    </div>
+                </div>
+                <div className="mt-3">
+                    <label className={`block text-[10px] mb-1 ${textSecondary}`}>长期记忆触发条数 (0 为关闭)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder={String(DEFAULT_SUMMARY_THRESHOLD)}
+                      value={config.summaryThreshold ?? ''}
+                      onChange={(e) => setConfig(prev => ({ ...prev, summaryThreshold: e.target.value ? Math.max(parseInt(e.target.value), 0) : undefined }))}
+                      className={`w-full rounded-lg p-3 text-sm focus:outline-none border font-mono ${bgInput}`}
+                    />
+                </div>
+                <p className={`text-[10px] mt-2 ${textSecondary}`}>超出时将从最早的聊天记录开始省略，人设与世界书各有独立的配额。未总结的消息超过触发条数后，较早的部分会由模型总结为前情提要。</p>
+              </div>
+
+              {/* Keyword Activation */}
+              <div className={`${bgPanel} p-5 rounded-2xl`}>
+                <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>世界书触发</h2>
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={`block text-[10px] mb-1 ${textSecondary}`}>扫描深度 (条)</label>
+                        <input
+                          type="number"
+                          min={1}
+                          placeholder={String(DEFAULT_SCAN_DEPTH)}
+                          value={config.worldBookScanDepth ?? ''}
+                          onChange={(e) => setConfig(prev => ({ ...prev, worldBookScanDepth: e.target.value ? Math.max(parseInt(e.target.value), 1) : undefined }))}
+                          className={`w-full rounded-lg p-3 text-sm focus:outline-none border font-mono ${bgInput}`}
+                        />
+                    </div>
+                    <div>
+                        <label className={`block text-[10px] mb-1 ${textSecondary}`}>世界书预算 (tokens)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          placeholder={`上下文的 ${WORLD_BOOK_SHARE * 100}%`}
+                          value={config.worldBookBudget ?? ''}
+                          onChange={(e) => setConfig(prev => ({ ...prev, worldBookBudget: e.target.value ? Math.max(parseInt(e.target.value), 0) : undefined }))}
+                          className={`w-full rounded-lg p-3 text-sm focus:outline-none border font-mono ${bgInput}`}
+                        />
+                    </div>
+                    <div>
+                        <label className={`block text-[10px] mb-1 ${textSecondary}`}>递归层数 (0 为关闭)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          placeholder={String(DEFAULT_MAX_RECURSION)}
+                          value={config.worldBookMaxRecursion ?? ''}
+                          onChange={(e) => setConfig(prev => ({ ...prev, worldBookMaxRecursion: e.target.value ? Math.max(parseInt(e.target.value), 0) : undefined }))}
+                          className={`w-full rounded-lg p-3 text-sm focus:outline-none border font-mono ${bgInput}`}
+                        />
+                    </div>
+                  </div>
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <span className={`text-sm ${textPrimary}`}>扫描模型回复</span>
+                            <p className={`text-[10px] ${textSecondary}`}>关闭后只有用户消息中的触发词会激活条目</p>
+                        </div>
+                        <div
+                          onClick={() => setConfig(prev => ({ ...prev, worldBookScanReplies: prev.worldBookScanReplies === false ? undefined : false }))}
+                          className={`w-14 h-8 shrink-0 rounded-full p-1 cursor-pointer transition-colors duration-300 ${config.worldBookScanReplies !== false ? 'bg-green-500' : (isDark ? 'bg-slate-700' : 'bg-gray-200')}`}
+                        >
+                           <div className={`w-6 h-6 rounded-full bg-white shadow-md transform transition-transform duration-300 ${config.worldBookScanReplies !== false ? 'translate-x-6' : 'translate-x-0'}`}></div>
+                        </div>
+                    </div>
+                </div>
+                <p className={`text-[10px] mt-2 ${textSecondary}`}>在最近几条消息 (含当前消息) 中查找触发词，1 表示只看当前消息。条目可单独设置扫描深度。激活的条目超出预算时，顺序数值最小的先被舍弃。已激活条目的内容会在递归层数内继续触发其他条目。</p>
+              </div>
+
+              {/* Semantic Retrieval */}
+              <div className={`${bgPanel} p-5 rounded-2xl`}>
+                <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>世界书语义检索</h2>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={`block text-[10px] mb-1 ${textSecondary}`}>嵌入模型</label>
+                        <input
+                          type="text"
+                          placeholder={config.provider === 'gemini' ? 'text-embedding-004' : 'text-embedding-3-small'}
+                          value={config.embeddingModel || ''}
+                          onChange={(e) => setConfig(prev => ({ ...prev, embeddingModel: e.target.value || undefined }))}
+                          className={`w-full rounded-lg p-3 text-sm focus:outline-none border font-mono ${bgInput}`}
+                        />
+                    </div>
+                    <div>
+                        <label className={`block text-[10px] mb-1 ${textSecondary}`}>每轮最多注入条目</label>
+                        <input
+                          type="number"
+                          min={1}
+                          placeholder={String(DEFAULT_TOP_K)}
+                          value={config.worldBookTopK ?? ''}
+                          onChange={(e) => setConfig(prev => ({ ...prev, worldBookTopK: e.target.value ? Math.max(parseInt(e.target.value), 1) : undefined }))}
+                          className={`w-full rounded-lg p-3 text-sm focus:outline-none border font-mono ${bgInput}`}
+                        />
+                    </div>
+                </div>
+                <p className={`text-[10px] mt-2 ${textSecondary}`}>仅对开启了向量检索的条目生效。嵌入模型留空、接口不提供 /embeddings (如 Anthropic) 或请求失败时使用本地近似向量。</p>
+              </div>
+
+              {/* Generation Parameters */}
+              <div className={`${bgPanel} p-5 rounded-2xl`}>
+                <h2 className={`text-xs font-bold uppercase tracking-wider mb-4 ${textSecondary}`}>生成参数</h2>
+                <GenerationParamsForm
+                  value={config.generation || {}}
+                  onChange={(generation) => setConfig(prev => ({ ...prev, generation }))}
+                  provider={config.provider}
+                  theme={theme}
+                  placeholders={DEFAULT_GENERATION}
+                />
+                <p className={`text-[10px] mt-2 ${textSecondary}`}>留空则使用默认值；当前接口不支持的参数不会被发送。角色可在聊天设置中单独覆盖。</p>
               </div>
 
               {/* Save as Preset */}
@@ -347,11 +699,18 @@ const SettingsApp: React.FC<SettingsAppProps> = ({ config, setConfig, theme, set
                     className={`w-full rounded-lg p-3 text-sm h-24 focus:outline-none border resize-none ${bgInput}`}
                     placeholder="设定 AI 的行为模式..."
                   />
+                  <p className={`text-[10px] ${textSecondary}`}>
+                    角色未设定提示词时使用。支持宏: {'{{user}} {{char}} {{time}} {{date}} {{weekday}} {{idle_duration}} {{random:a,b}} {{roll:2d6}}'}，写成 {'\\{{user}}'} 可保留原文。
+                  </p>
                 </div>
               </div>
             </>
           )}
 
+          {activeTab === 'usage' && (
+            <UsageDashboard config={config} setConfig={setConfig} contacts={contacts} usageLedger={usageLedger} theme={theme} />
+          )}
+
           {activeTab === 'appearance' && (
             <div className={`${bgPanel} p-5 rounded-2xl space-y-6`}>
               {/* Theme Toggle */}
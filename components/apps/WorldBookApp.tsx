@@ -1,12 +1,23 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { WorldEntry, ThemeMode, Contact } from '../../types';
-import { IconPlus, IconTrash, IconCheck, IconBook, IconX } from '../Icons';
+import { WorldEntry, ThemeMode, Contact, SecondaryKeyLogic, WorldEntryPosition, WorldBook } from '../../types';
+import { DEFAULT_SIMILARITY_THRESHOLD } from '../../services/embeddings';
+import { downloadJson, exportLorebook, importLorebook, LorebookFormat, LorebookImportResult, LOREBOOK_FORMAT_LABELS, readLorebookFile } from '../../services/lorebook';
+import { DEFAULT_MAX_RECURSION, DEFAULT_SCAN_DEPTH, SECONDARY_LOGIC_LABELS, splitKeywords, WORLD_ENTRY_POSITION_LABELS } from '../../services/worldActivation';
+import { DEFAULT_ENTRY_DEPTH, DEFAULT_ENTRY_ORDER } from '../../services/tokenBudget';
+import { addRevision, getChangedFields, loadWorldBookHistory, removeHistory, saveWorldBookHistory, WorldEntryRevision } from '../../services/worldBookHistory';
+import { DEFAULT_WORLD_BOOK_ID, getEntryBookId, toBookId } from '../../services/worldBooks';
+import { IconPlus, IconTrash, IconCheck, IconBook, IconX, IconUpload, IconDownload, IconSettings } from '../Icons';
+import WorldEntryHistory from '../WorldEntryHistory';
+import WorldBookSettings from '../WorldBookSettings';
 
 interface WorldBookAppProps {
   entries: WorldEntry[];
   setEntries: React.Dispatch<React.SetStateAction<WorldEntry[]>>;
+  books: WorldBook[];
+  setBooks: React.Dispatch<React.SetStateAction<WorldBook[]>>;
   contacts: Contact[];
+  setContacts: React.Dispatch<React.SetStateAction<Contact[]>>;
   closeApp: () => void;
   theme?: ThemeMode;
 }
@@ -14,22 +25,58 @@ interface WorldBookAppProps {
 const WorldBookApp: React.FC<WorldBookAppProps> = ({ 
   entries, 
   setEntries, 
+  books,
+  setBooks,
   contacts,
+  setContacts,
   closeApp: _closeApp,
   theme = 'dark' 
 }) => {
   const navigate = useNavigate();
   const [isEditing, setIsEditing] = useState(false);
   const [activeCategoryTab, setActiveCategoryTab] = useState('默认');
+  const [activeBookId, setActiveBookId] = useState(DEFAULT_WORLD_BOOK_ID);
+  const [showBookSettings, setShowBookSettings] = useState(false);
   
   // Form State
   const [newTitle, setNewTitle] = useState('');
   const [newCategory, setNewCategory] = useState('');
   const [showCategoryInput, setShowCategoryInput] = useState(false);
   const [newKeywords, setNewKeywords] = useState('');
+  const [newSecondaryKeywords, setNewSecondaryKeywords] = useState('');
+  const [newSecondaryLogic, setNewSecondaryLogic] = useState<SecondaryKeyLogic>('and_any');
+  const [newCaseSensitive, setNewCaseSensitive] = useState(false);
+  const [newWholeWords, setNewWholeWords] = useState(false);
+  const [newScanDepth, setNewScanDepth] = useState('');
+  const [newPreventRecursion, setNewPreventRecursion] = useState(false);
+  const [newExcludeRecursion, setNewExcludeRecursion] = useState(false);
+  const [newSticky, setNewSticky] = useState('');
+  const [newCooldown, setNewCooldown] = useState('');
+  const [newDelay, setNewDelay] = useState('');
+  const [newProbability, setNewProbability] = useState('');
+  const [newOrder, setNewOrder] = useState('');
+  const [newPosition, setNewPosition] = useState<WorldEntryPosition>('after_char');
+  const [newDepth, setNewDepth] = useState('');
   const [newScope, setNewScope] = useState<'global' | 'character'>('global');
   const [selectedCharId, setSelectedCharId] = useState('');
   const [newContent, setNewContent] = useState('');
+  const [newVectorized, setNewVectorized] = useState(false);
+  const [newThreshold, setNewThreshold] = useState('');
+
+  // Import / Export State
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [importReport, setImportReport] = useState<LorebookImportResult | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showImportMenu, setShowImportMenu] = useState(false);
+  const [importAsNewBook, setImportAsNewBook] = useState(false);
+
+  // Edit / History State
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [history, setHistory] = useState(loadWorldBookHistory);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [deleted, setDeleted] = useState<{ entry: WorldEntry; index: number } | null>(null);
+  const deletedRef = useRef(deleted);
 
   const isDark = theme === 'dark';
   const textPrimary = isDark ? 'text-white' : 'text-slate-900';
@@ -41,9 +88,16 @@ const WorldBookApp: React.FC<WorldBookAppProps> = ({
     ? 'bg-gradient-to-r from-amber-200 to-amber-500' 
     : 'bg-gradient-to-r from-amber-600 to-amber-800';
 
+  const activeBook = books.find(b => b.id === activeBookId) || books[0];
+
+  // Only the open book's entries are listed; categories group within it
+  const bookEntries = useMemo(() => {
+    return entries.filter(e => getEntryBookId(e) === activeBook?.id);
+  }, [entries, activeBook]);
+
   // Derive unique categories. Ensure '默认' is always present and first.
   const tabs = useMemo(() => {
-    const cats = new Set(entries.map(e => e.category || '默认'));
+    const cats = new Set(bookEntries.map(e => e.category || '默认'));
     cats.add('默认');
     
     return Array.from(cats).sort((a: string, b: string) => {
@@ -51,66 +105,284 @@ const WorldBookApp: React.FC<WorldBookAppProps> = ({
         if (b === '默认') return 1;
         return a.localeCompare(b);
     });
-  }, [entries]);
+  }, [bookEntries]);
 
   // Derive existing categories for the form chips
   const existingCategories = useMemo(() => {
     return tabs;
   }, [tabs]);
 
-  // Auto-fill category in form when opening edit mode in a specific tab
   useEffect(() => {
-    if (isEditing) {
+    saveWorldBookHistory(history);
+  }, [history]);
+
+  // A deleted entry can be brought back until the notice times out; after that its history goes too
+  useEffect(() => {
+    if (!deleted) return;
+    const timer = setTimeout(() => {
+      setHistory(prev => removeHistory(prev, deleted.entry.id));
+      setDeleted(null);
+    }, 8000);
+    return () => clearTimeout(timer);
+  }, [deleted]);
+
+  // Closing the app inside the undo window makes the deletion final, as the timeout would have.
+  // State is gone by then, so the stored history is pruned directly.
+  useEffect(() => {
+    deletedRef.current = deleted;
+  }, [deleted]);
+
+  useEffect(() => () => {
+    const pending = deletedRef.current;
+    if (pending) saveWorldBookHistory(removeHistory(loadWorldBookHistory(), pending.entry.id));
+  }, []);
+
+  // Auto-fill category in form when opening add mode in a specific tab
+  useEffect(() => {
+    if (isEditing && !editingId) {
       setNewCategory(activeCategoryTab);
       setShowCategoryInput(false);
     }
   }, [isEditing, activeCategoryTab]);
 
-  const addEntry = () => {
+  const resetForm = () => {
+    setNewTitle('');
+    setNewCategory(''); 
+    setShowCategoryInput(false);
+    setNewKeywords('');
+    setNewSecondaryKeywords('');
+    setNewSecondaryLogic('and_any');
+    setNewCaseSensitive(false);
+    setNewWholeWords(false);
+    setNewScanDepth('');
+    setNewPreventRecursion(false);
+    setNewExcludeRecursion(false);
+    setNewSticky('');
+    setNewCooldown('');
+    setNewDelay('');
+    setNewProbability('');
+    setNewOrder('');
+    setNewPosition('after_char');
+    setNewDepth('');
+    setNewContent('');
+    setNewScope('global');
+    setSelectedCharId('');
+    setNewVectorized(false);
+    setNewThreshold('');
+    setEditingId(null);
+    setIsEditing(false);
+  };
+
+  const openEditor = (entry: WorldEntry) => {
+    setEditingId(entry.id);
+    setNewTitle(entry.title);
+    setNewCategory(entry.category || '默认');
+    setShowCategoryInput(false);
+    setNewKeywords((entry.triggerKeywords || []).join(', '));
+    setNewSecondaryKeywords((entry.secondaryKeywords || []).join(', '));
+    setNewSecondaryLogic(entry.secondaryLogic || 'and_any');
+    setNewCaseSensitive(!!entry.caseSensitive);
+    setNewWholeWords(!!entry.matchWholeWords);
+    setNewScanDepth(entry.scanDepth?.toString() || '');
+    setNewPreventRecursion(!!entry.preventRecursion);
+    setNewExcludeRecursion(!!entry.excludeRecursion);
+    setNewSticky(entry.sticky?.toString() || '');
+    setNewCooldown(entry.cooldown?.toString() || '');
+    setNewDelay(entry.delay?.toString() || '');
+    setNewProbability(entry.probability?.toString() || '');
+    setNewOrder(entry.order?.toString() || '');
+    setNewPosition(entry.position || 'after_char');
+    setNewDepth(entry.depth?.toString() || '');
+    setNewContent(entry.content);
+    setNewScope(entry.scope || 'global');
+    setSelectedCharId(entry.characterId || '');
+    setNewVectorized(!!entry.vectorized);
+    setNewThreshold(entry.similarityThreshold?.toString() || '');
+    setIsEditing(true);
+    setPendingDeleteId(null);
+    // The form sits above the list
+    contentRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Replacing an entry logs the previous version, so every edit (and every restore) can be undone
+  const replaceEntry = (next: WorldEntry) => {
+    const previous = entries.find(e => e.id === next.id);
+    if (!previous || getChangedFields(previous, next).length === 0) return;
+    setHistory(prev => addRevision(prev, previous));
+    setEntries(prev => prev.map(e => e.id === next.id ? next : e));
+  };
+
+  // Blank or zero means the effect is off
+  const parseCount = (value: string) => parseInt(value) > 0 ? parseInt(value) : undefined;
+
+  const saveEntry = () => {
     if (!newTitle.trim() || !newContent.trim()) return;
     
     // Parse keywords
-    const keywords = newKeywords.split(/[,，]/).map(k => k.trim()).filter(Boolean);
+    const keywords = splitKeywords(newKeywords);
+    const secondaryKeywords = splitKeywords(newSecondaryKeywords);
+
+    const existing = editingId ? entries.find(e => e.id === editingId) : undefined;
 
-    const newEntry: WorldEntry = {
-      id: Date.now().toString(),
+    // Fields the form doesn't show are kept as they were
+    const fields = {
       title: newTitle,
       content: newContent,
       category: newCategory.trim() || '默认',
-      active: true,
       triggerKeywords: keywords,
+      secondaryKeywords: secondaryKeywords.length ? secondaryKeywords : undefined,
+      secondaryLogic: secondaryKeywords.length && newSecondaryLogic !== 'and_any' ? newSecondaryLogic : undefined,
+      caseSensitive: newCaseSensitive || undefined,
+      matchWholeWords: newWholeWords || undefined,
+      scanDepth: newScanDepth ? Math.max(parseInt(newScanDepth), 1) : undefined,
+      preventRecursion: newPreventRecursion || undefined,
+      excludeRecursion: newExcludeRecursion || undefined,
+      sticky: parseCount(newSticky),
+      cooldown: parseCount(newCooldown),
+      delay: parseCount(newDelay),
+      probability: newProbability && parseInt(newProbability) < 100 ? Math.max(parseInt(newProbability), 0) : undefined,
+      order: newOrder ? parseInt(newOrder) : undefined,
+      // Leaving the default untouched keeps older entries free of an explicit position
+      position: newPosition === 'after_char' && !existing?.position ? undefined : newPosition,
+      depth: newPosition === 'at_depth' ? Math.max(newDepth ? parseInt(newDepth) : DEFAULT_ENTRY_DEPTH, 0) : undefined,
       scope: newScope,
       characterId: newScope === 'character' ? selectedCharId : undefined,
+      vectorized: newVectorized || undefined,
+      similarityThreshold: newVectorized && newThreshold ? Math.min(Math.max(parseFloat(newThreshold), 0), 1) : undefined,
     };
+
+    if (existing) {
+      replaceEntry({ ...existing, ...fields });
+    } else {
+      setEntries(prev => [...prev, { id: Date.now().toString(), active: true, bookId: toBookId(activeBook.id), ...fields }]);
+    }
     
-    setEntries(prev => [...prev, newEntry]);
-    
-    // Reset Form
-    setNewTitle('');
-    setNewCategory(''); 
-    setShowCategoryInput(false);
-    setNewKeywords('');
-    setNewContent('');
-    setNewScope('global');
-    setSelectedCharId('');
-    setIsEditing(false);
+    resetForm();
+  };
+
+  const restoreRevision = (revision: WorldEntryRevision) => {
+    const current = entries.find(e => e.id === revision.entry.id);
+    if (!current) return;
+    // Enabled state isn't part of an edit; keep whatever it is now
+    replaceEntry({ ...revision.entry, active: current.active });
+    resetForm();
   };
 
   const toggleEntry = (id: string) => {
     setEntries(prev => prev.map(e => e.id === id ? { ...e, active: !e.active } : e));
   };
 
+  const toggleVectorized = (id: string) => {
+    setEntries(prev => prev.map(e => e.id === id ? { ...e, vectorized: !e.vectorized } : e));
+  };
+
+  // First tap arms the button, second tap deletes; the notice below offers an undo
   const deleteEntry = (id: string) => {
+    if (pendingDeleteId !== id) {
+      setPendingDeleteId(id);
+      return;
+    }
+    const index = entries.findIndex(e => e.id === id);
+    if (index === -1) return;
+    // Only one undo slot: an earlier deletion becomes final now
+    if (deleted) setHistory(prev => removeHistory(prev, deleted.entry.id));
+    setDeleted({ entry: entries[index], index });
     setEntries(prev => prev.filter(e => e.id !== id));
+    setPendingDeleteId(null);
+    if (editingId === id) resetForm();
+  };
+
+  const undoDelete = () => {
+    if (!deleted) return;
+    setEntries(prev => [...prev.slice(0, deleted.index), deleted.entry, ...prev.slice(deleted.index)]);
+    setDeleted(null);
   };
 
   // Filter entries based on the active tab
   const filteredEntries = useMemo(() => {
-    return entries.filter(e => (e.category || '默认') === activeCategoryTab);
-  }, [entries, activeCategoryTab]);
+    return bookEntries.filter(e => (e.category || '默认') === activeCategoryTab);
+  }, [bookEntries, activeCategoryTab]);
+
+  const switchBook = (bookId: string) => {
+    resetForm();
+    setActiveBookId(bookId);
+    setActiveCategoryTab('默认');
+    setShowBookSettings(false);
+  };
+
+  const createBook = () => {
+    const book: WorldBook = { id: `book_${Date.now()}`, name: '新世界书', enabled: true };
+    setBooks(prev => [...prev, book]);
+    switchBook(book.id);
+    setShowBookSettings(true);
+  };
+
+  const updateBook = (patch: Partial<WorldBook>) => {
+    setBooks(prev => prev.map(b => b.id === activeBook.id ? { ...b, ...patch } : b));
+  };
+
+  const toggleBookContact = (contactId: string) => {
+    setContacts(prev => prev.map(c => {
+      if (c.id !== contactId) return c;
+      const ids = c.worldBookIds || [];
+      return { ...c, worldBookIds: ids.includes(activeBook.id) ? ids.filter(id => id !== activeBook.id) : [...ids, activeBook.id] };
+    }));
+  };
+
+  // Conversations may still list the id; books that no longer exist are simply skipped
+  const deleteBook = () => {
+    const bookId = activeBook.id;
+    setHistory(prev => bookEntries.reduce((next, entry) => removeHistory(next, entry.id), prev));
+    setEntries(prev => prev.filter(e => getEntryBookId(e) !== bookId));
+    setBooks(prev => prev.filter(b => b.id !== bookId));
+    setContacts(prev => prev.map(c => c.worldBookIds?.includes(bookId) ? { ...c, worldBookIds: c.worldBookIds.filter(id => id !== bookId) } : c));
+    switchBook(DEFAULT_WORLD_BOOK_ID);
+  };
+
+  const pickImportFile = (asNewBook: boolean) => {
+    setImportAsNewBook(asNewBook);
+    setShowImportMenu(false);
+    importInputRef.current?.click();
+  };
+
+  // Imported entries land in their own category, named after the source book or file.
+  // They either become a new book of that name or are merged into the open one.
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const fileName = file.name.replace(/\.[^.]+$/, '');
+      const result = importLorebook(await readLorebookFile(file), fileName);
+      if (result.entries.length === 0) {
+        alert('文件中没有可导入的条目');
+        return;
+      }
+      let bookId = activeBook.id;
+      if (importAsNewBook) {
+        const book: WorldBook = { id: `book_${Date.now()}`, name: result.name || fileName, enabled: true };
+        setBooks(prev => [...prev, book]);
+        switchBook(book.id);
+        bookId = book.id;
+      }
+      setEntries(prev => [...prev, ...result.entries.map(entry => ({ ...entry, bookId: toBookId(bookId) }))]);
+      setActiveCategoryTab(result.entries[0].category || '默认');
+      setImportReport(result);
+    } catch (error) {
+      alert('导入失败: ' + (error instanceof Error ? error.message : '未知错误'));
+    }
+  };
+
+  // The whole open book is exported, across all of its categories
+  const handleExport = (format: LorebookFormat) => {
+    const suffix = format === 'native' ? 'zphone' : format === 'sillytavern' ? 'st' : 'character_book';
+    const name = activeBook.name || '未命名';
+    downloadJson(exportLorebook(bookEntries, format, name), `${name}.${suffix}.json`);
+    setShowExportMenu(false);
+  };
 
   return (
-    <div className={`h-full flex flex-col ${isDark ? 'bg-slate-900/90 text-white' : 'bg-[#F2F2F7] text-slate-900'}`}>
+    <div className={`h-full flex flex-col relative ${isDark ? 'bg-slate-900/90 text-white' : 'bg-[#F2F2F7] text-slate-900'}`}>
       {/* Header */}
       <div className={`p-6 pt-12 border-b-0 rounded-b-3xl shrink-0 flex flex-col z-10 sticky top-0 ${isDark ? 'glass-panel' : 'bg-white shadow-sm'}`}>
         <div className="flex justify-between items-center mb-4">
@@ -120,9 +392,53 @@ const WorldBookApp: React.FC<WorldBookAppProps> = ({
               </h1>
               <p className={`text-xs ${isDark ? 'text-white/50' : 'text-slate-500'}`}>设定与上下文管理</p>
             </div>
-            <div className="flex gap-2">
+            <div className="flex gap-2 relative">
+              <input type="file" ref={importInputRef} onChange={handleImport} className="hidden" accept=".json,.png,application/json,image/png" />
+              <button
+                onClick={() => { setShowImportMenu(!showImportMenu); setShowExportMenu(false); }}
+                className={`p-3 rounded-full transition-colors ${isDark ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+              >
+                <IconUpload className="w-6 h-6" />
+              </button>
+              {showImportMenu && (
+                <div className={`absolute top-14 right-0 z-20 w-56 p-2 rounded-2xl animate-pop-in ${isDark ? 'bg-slate-800 border border-white/10' : 'bg-white shadow-lg border border-slate-200'}`}>
+                  <button
+                    onClick={() => pickImportFile(true)}
+                    className={`w-full text-left px-2 py-2 rounded-lg text-sm ${isDark ? 'hover:bg-white/10' : 'hover:bg-slate-100'}`}
+                  >
+                    导入为新世界书
+                  </button>
+                  <button
+                    onClick={() => pickImportFile(false)}
+                    className={`w-full text-left px-2 py-2 rounded-lg text-sm ${isDark ? 'hover:bg-white/10' : 'hover:bg-slate-100'}`}
+                  >
+                    合并到「{activeBook?.name || '未命名'}」
+                  </button>
+                </div>
+              )}
+              <button
+                onClick={() => { setShowExportMenu(!showExportMenu); setShowImportMenu(false); }}
+                className={`p-3 rounded-full transition-colors ${isDark ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+              >
+                <IconDownload className="w-6 h-6" />
+              </button>
+              {showExportMenu && (
+                <div className={`absolute top-14 right-0 z-20 w-56 p-2 rounded-2xl animate-pop-in ${isDark ? 'bg-slate-800 border border-white/10' : 'bg-white shadow-lg border border-slate-200'}`}>
+                  <p className={`text-[10px] px-2 py-1 ${textTertiary}`}>导出「{activeBook?.name || '未命名'}」({bookEntries.length} 条)</p>
+                  {(Object.keys(LOREBOOK_FORMAT_LABELS) as LorebookFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      disabled={bookEntries.length === 0}
+                      className={`w-full text-left px-2 py-2 rounded-lg text-sm disabled:opacity-40 ${isDark ? 'hover:bg-white/10' : 'hover:bg-slate-100'}`}
+                    >
+                      {LOREBOOK_FORMAT_LABELS[format]}
+                    </button>
+                  ))}
+                </div>
+              )}
               <button 
-                onClick={() => setIsEditing(!isEditing)}
+                onClick={() => isEditing ? resetForm() : setIsEditing(true)}
                 className="p-3 bg-amber-500/20 text-amber-500 rounded-full hover:bg-amber-500/30 transition-colors"
               >
                 {isEditing ? <IconCheck className="w-6 h-6" /> : <IconPlus className="w-6 h-6" />}
@@ -136,6 +452,37 @@ const WorldBookApp: React.FC<WorldBookAppProps> = ({
             </div>
         </div>
 
+        {/* Book Switcher */}
+        <div className="flex items-center gap-2 overflow-x-auto no-scrollbar -mx-2 px-2 pb-3">
+            {books.map(book => (
+              <button
+                key={book.id}
+                onClick={() => switchBook(book.id)}
+                className={`whitespace-nowrap px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                   activeBook?.id === book.id
+                     ? (isDark ? 'border-amber-500 text-amber-300 bg-amber-500/10' : 'border-amber-600 text-amber-700 bg-amber-50')
+                     : (isDark ? 'border-white/10 text-white/60' : 'border-slate-200 text-slate-600')
+                } ${book.enabled ? '' : 'opacity-50 line-through'}`}
+              >
+                <IconBook className="w-3 h-3 inline mr-1 -mt-0.5" />
+                {book.name || '未命名'}
+                {book.global && <span className="ml-1 text-[10px] opacity-60">全局</span>}
+              </button>
+            ))}
+            <button
+              onClick={createBook}
+              className={`shrink-0 p-1.5 rounded-lg border border-dashed ${isDark ? 'border-white/20 text-white/60' : 'border-slate-300 text-slate-500'}`}
+            >
+              <IconPlus className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setShowBookSettings(!showBookSettings)}
+              className={`shrink-0 p-1.5 rounded-lg ${showBookSettings ? 'text-amber-500' : (isDark ? 'text-white/60' : 'text-slate-500')}`}
+            >
+              <IconSettings className="w-4 h-4" />
+            </button>
+        </div>
+
         {/* Horizontal Category List (Scrollable) */}
         <div className="flex items-center gap-2 overflow-x-auto no-scrollbar -mx-2 px-2 pb-1">
             {tabs.map(tab => (
@@ -155,7 +502,48 @@ const WorldBookApp: React.FC<WorldBookAppProps> = ({
       </div>
 
       {/* Content */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 no-scrollbar pb-20">
+      <div ref={contentRef} className="flex-1 overflow-y-auto p-4 space-y-4 no-scrollbar pb-20">
+
+        {showBookSettings && activeBook && (
+          <WorldBookSettings
+            key={activeBook.id}
+            book={activeBook}
+            entryCount={bookEntries.length}
+            contacts={contacts}
+            canDelete={activeBook.id !== DEFAULT_WORLD_BOOK_ID}
+            theme={theme}
+            onChange={updateBook}
+            onToggleContact={toggleBookContact}
+            onDelete={deleteBook}
+          />
+        )}
+
+        {importReport && (
+          <div className={`${bgPanel} p-4 rounded-2xl border border-amber-500/30 animate-pop-in`}>
+            <div className="flex justify-between items-start">
+              <p className={`text-sm ${textPrimary}`}>
+                已从{LOREBOOK_FORMAT_LABELS[importReport.format]}导入 {importReport.entries.length} 条设定
+              </p>
+              <button onClick={() => setImportReport(null)} className={textTertiary}>
+                <IconX className="w-4 h-4" />
+              </button>
+            </div>
+            {Object.keys(importReport.unmapped).length > 0 ? (
+              <div className="mt-2">
+                <p className={`text-[10px] ${textTertiary}`}>以下字段无法映射，已忽略 (括号内为涉及条目数)：</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {Object.entries(importReport.unmapped).map(([field, count]) => (
+                    <span key={field} className="px-1.5 py-0.5 rounded text-[10px] font-mono bg-red-500/10 text-red-400 border border-red-500/20">
+                      {field} ({count})
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className={`text-[10px] mt-1 ${textTertiary}`}>所有字段均已映射</p>
+            )}
+          </div>
+        )}
         
         {isEditing && (
           <div className={`${bgPanel} p-4 rounded-2xl border-amber-500/30 border animate-pop-in mb-4 space-y-3`}>
@@ -221,11 +609,185 @@ const WorldBookApp: React.FC<WorldBookAppProps> = ({
                <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>触发词 (选填)</label>
                <input
                 type="text"
-                placeholder="例如: 战斗, 魔法 (以逗号分隔)"
+                placeholder="例如: 战斗, 魔法, /王(城|都)/ (以逗号分隔)"
                 value={newKeywords}
                 onChange={(e) => setNewKeywords(e.target.value)}
                 className={`w-full rounded-lg p-3 text-sm focus:outline-none focus:ring-1 focus:ring-amber-500 ${bgInput}`}
               />
+              <p className={`text-[10px] ml-1 mt-1 ${textTertiary}`}>写成 /表达式/标志 的触发词按正则匹配</p>
+            </div>
+
+            {/* Secondary Keywords */}
+            <div>
+               <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>次要触发词 (选填)</label>
+               <div className="flex gap-2">
+                 <select
+                   value={newSecondaryLogic}
+                   onChange={(e) => setNewSecondaryLogic(e.target.value as SecondaryKeyLogic)}
+                   className={`shrink-0 rounded-lg p-3 text-sm focus:outline-none border-none ${bgInput}`}
+                 >
+                   {(Object.keys(SECONDARY_LOGIC_LABELS) as SecondaryKeyLogic[]).map(logic => (
+                     <option key={logic} value={logic}>{SECONDARY_LOGIC_LABELS[logic]}</option>
+                   ))}
+                 </select>
+                 <input
+                  type="text"
+                  placeholder="例如: 夜晚, 雨天"
+                  value={newSecondaryKeywords}
+                  onChange={(e) => setNewSecondaryKeywords(e.target.value)}
+                  className={`flex-1 min-w-0 rounded-lg p-3 text-sm focus:outline-none focus:ring-1 focus:ring-amber-500 ${bgInput}`}
+                />
+               </div>
+               <p className={`text-[10px] ml-1 mt-1 ${textTertiary}`}>命中触发词后，再按所选逻辑检查次要触发词</p>
+            </div>
+
+            {/* Match Options */}
+            <div className="flex gap-2">
+              {[
+                { label: '区分大小写', checked: newCaseSensitive, toggle: () => setNewCaseSensitive(!newCaseSensitive) },
+                { label: '全词匹配', checked: newWholeWords, toggle: () => setNewWholeWords(!newWholeWords) },
+              ].map(option => (
+                <button
+                  key={option.label}
+                  onClick={option.toggle}
+                  className={`flex-1 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                    option.checked
+                      ? 'bg-amber-500 border-amber-500 text-white shadow-sm'
+                      : (isDark ? 'bg-white/5 border-white/10 text-white/60' : 'bg-white border-slate-200 text-slate-600')
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {/* Scan Depth */}
+            <div>
+              <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>扫描深度 (选填)</label>
+              <input
+                type="number"
+                min={1}
+                placeholder={`留空使用全局设置 (默认 ${DEFAULT_SCAN_DEPTH})`}
+                value={newScanDepth}
+                onChange={(e) => setNewScanDepth(e.target.value)}
+                className={`w-full rounded-lg p-3 text-sm focus:outline-none focus:ring-1 focus:ring-amber-500 ${bgInput}`}
+              />
+              <p className={`text-[10px] ml-1 mt-1 ${textTertiary}`}>在最近几条消息中查找触发词，1 表示只看当前消息</p>
+            </div>
+
+            {/* Recursion */}
+            <div>
+              <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>递归触发</label>
+              <div className="flex gap-2 mt-1">
+                {[
+                  { label: '不触发其他条目', checked: newPreventRecursion, toggle: () => setNewPreventRecursion(!newPreventRecursion) },
+                  { label: '不可被递归触发', checked: newExcludeRecursion, toggle: () => setNewExcludeRecursion(!newExcludeRecursion) },
+                ].map(option => (
+                  <button
+                    key={option.label}
+                    onClick={option.toggle}
+                    className={`flex-1 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                      option.checked
+                        ? 'bg-amber-500 border-amber-500 text-white shadow-sm'
+                        : (isDark ? 'bg-white/5 border-white/10 text-white/60' : 'bg-white border-slate-200 text-slate-600')
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className={`text-[10px] ml-1 mt-1 ${textTertiary}`}>激活条目的内容会继续匹配其他条目的触发词，默认最多 {DEFAULT_MAX_RECURSION} 层</p>
+            </div>
+
+            {/* Timed Effects */}
+            <div>
+              <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>时效 (选填)</label>
+              <div className="grid grid-cols-2 gap-2 mt-1">
+                {[
+                  { placeholder: '持续轮数', value: newSticky, set: setNewSticky, max: undefined },
+                  { placeholder: '冷却轮数', value: newCooldown, set: setNewCooldown, max: undefined },
+                  { placeholder: '延迟至第 N 条消息', value: newDelay, set: setNewDelay, max: undefined },
+                  { placeholder: '触发概率 % (默认 100)', value: newProbability, set: setNewProbability, max: 100 },
+                ].map(field => (
+                  <input
+                    key={field.placeholder}
+                    type="number"
+                    min={0}
+                    max={field.max}
+                    placeholder={field.placeholder}
+                    value={field.value}
+                    onChange={(e) => field.set(e.target.value)}
+                    className={`w-full rounded-lg p-3 text-sm focus:outline-none focus:ring-1 focus:ring-amber-500 ${bgInput}`}
+                  />
+                ))}
+              </div>
+              <p className={`text-[10px] ml-1 mt-1 ${textTertiary}`}>触发后持续生效若干轮，结束后冷却若干轮；对话消息数达到延迟值前不会触发；每次命中按概率决定是否生效</p>
+            </div>
+
+            {/* Insertion */}
+            <div>
+               <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>插入位置</label>
+               <div className={`flex rounded-lg p-1 mt-1 ${isDark ? 'bg-black/40' : 'bg-slate-200'}`}>
+                 {(Object.keys(WORLD_ENTRY_POSITION_LABELS) as WorldEntryPosition[]).map(position => (
+                   <button
+                     key={position}
+                     onClick={() => setNewPosition(position)}
+                     className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-all ${newPosition === position ? (isDark ? 'bg-white/20 text-white shadow-sm' : 'bg-white text-slate-900 shadow-sm') : 'text-slate-500'}`}
+                   >
+                     {WORLD_ENTRY_POSITION_LABELS[position]}
+                   </button>
+                 ))}
+               </div>
+               <div className="flex gap-2 mt-2">
+                 <input
+                   type="number"
+                   placeholder={`顺序 (默认 ${DEFAULT_ENTRY_ORDER})`}
+                   value={newOrder}
+                   onChange={(e) => setNewOrder(e.target.value)}
+                   className={`flex-1 min-w-0 rounded-lg p-3 text-sm focus:outline-none focus:ring-1 focus:ring-amber-500 ${bgInput}`}
+                 />
+                 {newPosition === 'at_depth' && (
+                   <input
+                     type="number"
+                     min={0}
+                     placeholder={`深度 (默认 ${DEFAULT_ENTRY_DEPTH})`}
+                     value={newDepth}
+                     onChange={(e) => setNewDepth(e.target.value)}
+                     className={`flex-1 min-w-0 rounded-lg p-3 text-sm focus:outline-none focus:ring-1 focus:ring-amber-500 animate-fade-in ${bgInput}`}
+                   />
+                 )}
+               </div>
+               <p className={`text-[10px] ml-1 mt-1 ${textTertiary}`}>
+                 顺序越小越靠前；世界书超出预算时先舍弃顺序最小的条目。{newPosition === 'at_depth' ? '对话深度以系统消息插入，0 为当前消息之后，1 为其之前。' : ''}
+               </p>
+            </div>
+
+            {/* Vector Retrieval */}
+            <div>
+               <div className="flex items-center justify-between">
+                 <div>
+                   <label className={`text-[10px] uppercase font-bold ml-1 ${textTertiary}`}>向量检索</label>
+                   <p className={`text-[10px] ml-1 ${textTertiary}`}>按与最近对话的语义相似度检索，无需命中触发词</p>
+                 </div>
+                 <div
+                   onClick={() => setNewVectorized(!newVectorized)}
+                   className={`w-12 h-7 shrink-0 rounded-full p-1 cursor-pointer transition-colors duration-300 ${newVectorized ? 'bg-amber-500' : (isDark ? 'bg-slate-700' : 'bg-gray-200')}`}
+                 >
+                   <div className={`w-5 h-5 rounded-full bg-white shadow-md transform transition-transform duration-300 ${newVectorized ? 'translate-x-5' : 'translate-x-0'}`}></div>
+                 </div>
+               </div>
+               {newVectorized && (
+                 <input
+                   type="number"
+                   min={0}
+                   max={1}
+                   step={0.05}
+                   placeholder={`相似度阈值 (默认 ${DEFAULT_SIMILARITY_THRESHOLD})`}
+                   value={newThreshold}
+                   onChange={(e) => setNewThreshold(e.target.value)}
+                   className={`w-full mt-2 rounded-lg p-3 text-sm focus:outline-none focus:ring-1 focus:ring-amber-500 animate-fade-in ${bgInput}`}
+                 />
+               )}
             </div>
 
             {/* Scope */}
@@ -274,11 +836,21 @@ const WorldBookApp: React.FC<WorldBookAppProps> = ({
             </div>
 
             <button 
-              onClick={addEntry}
+              onClick={saveEntry}
               className="w-full mt-2 bg-gradient-to-r from-amber-500 to-orange-600 text-white p-3 rounded-lg font-bold text-sm shadow-lg shadow-orange-500/20"
             >
-              添加至知识库
+              {editingId ? '保存修改' : '添加至知识库'}
             </button>
+
+            {editingId && (history[editingId]?.length || 0) > 0 && (
+              <WorldEntryHistory
+                entry={entries.find(e => e.id === editingId)!}
+                revisions={history[editingId]}
+                contacts={contacts}
+                theme={theme}
+                onRestore={restoreRevision}
+              />
+            )}
           </div>
         )}
 
@@ -293,12 +865,13 @@ const WorldBookApp: React.FC<WorldBookAppProps> = ({
            {filteredEntries.map(entry => (
              <div 
                key={entry.id} 
-               className={`group relative p-4 rounded-2xl transition-all duration-300 ${isDark ? 'glass-panel' : 'bg-white shadow-sm border border-slate-200'} ${entry.active ? (isDark ? 'border-amber-500/40 bg-amber-900/10' : 'border-amber-500/40 bg-amber-50') : 'opacity-60 grayscale'}`}
+               onClick={() => openEditor(entry)}
+               className={`group relative p-4 rounded-2xl cursor-pointer transition-all duration-300 ${isDark ? 'glass-panel' : 'bg-white shadow-sm border border-slate-200'} ${entry.active ? (isDark ? 'border-amber-500/40 bg-amber-900/10' : 'border-amber-500/40 bg-amber-50') : 'opacity-60 grayscale'}`}
              >
                <div className="flex justify-between items-start mb-2">
                  <div>
                     <h3 className={`font-bold text-lg ${isDark ? 'text-amber-100' : 'text-amber-800'}`}>{entry.title}</h3>
-                    <div className="flex gap-2 mt-1">
+                    <div className="flex flex-wrap gap-2 mt-1">
                       {/* Chips */}
                       <span className={`px-1.5 py-0.5 rounded text-[10px] ${isDark ? 'bg-white/10 text-white/50' : 'bg-slate-100 text-slate-500'}`}>
                         {entry.category || '默认'}
@@ -312,28 +885,58 @@ const WorldBookApp: React.FC<WorldBookAppProps> = ({
                             全局
                          </span>
                       )}
+                      {(entry.position || entry.order !== undefined) && (
+                         <span className={`px-1.5 py-0.5 rounded text-[10px] ${isDark ? 'bg-white/10 text-white/50' : 'bg-slate-100 text-slate-500'}`}>
+                            {entry.position === 'at_depth' ? `深度 ${entry.depth ?? DEFAULT_ENTRY_DEPTH}` : WORLD_ENTRY_POSITION_LABELS[entry.position || 'after_char']} · {entry.order ?? DEFAULT_ENTRY_ORDER}
+                         </span>
+                      )}
+                      {(entry.sticky || entry.cooldown || entry.delay || entry.probability !== undefined) && (
+                         <span className="px-1.5 py-0.5 rounded text-[10px] bg-orange-500/20 text-orange-300 border border-orange-500/30">
+                            {[
+                              entry.sticky && `持续 ${entry.sticky}`,
+                              entry.cooldown && `冷却 ${entry.cooldown}`,
+                              entry.delay && `延迟 ${entry.delay}`,
+                              entry.probability !== undefined && `${entry.probability}%`
+                            ].filter(Boolean).join(' · ')}
+                         </span>
+                      )}
                       {entry.triggerKeywords && entry.triggerKeywords.length > 0 && (
                          <span className="px-1.5 py-0.5 rounded text-[10px] bg-slate-500/20 text-slate-300 border border-slate-500/30">
-                            触发词: {entry.triggerKeywords.length}
+                            触发词: {entry.triggerKeywords.length}{entry.secondaryKeywords?.length ? ` + ${entry.secondaryKeywords.length}` : ''}
                          </span>
                       )}
+                      <button
+                        onClick={(e) => { e.stopPropagation(); toggleVectorized(entry.id); }}
+                        className={`px-1.5 py-0.5 rounded text-[10px] border ${entry.vectorized ? 'bg-teal-500/20 text-teal-300 border-teal-500/30' : (isDark ? 'border-white/10 text-white/30' : 'border-slate-200 text-slate-400')}`}
+                      >
+                        {entry.vectorized ? `向量 ≥${entry.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD}` : '向量: 关'}
+                      </button>
                     </div>
                  </div>
                  <div className="flex gap-2">
-                   <button onClick={() => toggleEntry(entry.id)} className={`w-4 h-4 rounded-full border ${entry.active ? 'bg-green-400 border-green-400 shadow-[0_0_8px_rgba(74,222,128,0.5)]' : (isDark ? 'bg-transparent border-white/30' : 'bg-transparent border-slate-300')}`} />
+                   <button onClick={(e) => { e.stopPropagation(); toggleEntry(entry.id); }} className={`w-4 h-4 rounded-full border ${entry.active ? 'bg-green-400 border-green-400 shadow-[0_0_8px_rgba(74,222,128,0.5)]' : (isDark ? 'bg-transparent border-white/30' : 'bg-transparent border-slate-300')}`} />
                  </div>
                </div>
                <p className={`text-sm leading-relaxed font-light ${textSecondary}`}>{entry.content}</p>
                <button 
-                 onClick={() => deleteEntry(entry.id)}
-                 className="absolute bottom-4 right-4 p-2 bg-red-500/20 text-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                 onClick={(e) => { e.stopPropagation(); deleteEntry(entry.id); }}
+                 onMouseLeave={() => pendingDeleteId === entry.id && setPendingDeleteId(null)}
+                 className={`absolute bottom-4 right-4 p-2 bg-red-500/20 text-red-500 rounded-full transition-opacity flex items-center gap-1 ${pendingDeleteId === entry.id ? 'opacity-100 px-3' : 'opacity-0 group-hover:opacity-100'}`}
                >
                  <IconTrash className="w-4 h-4" />
+                 {pendingDeleteId === entry.id && <span className="text-xs font-bold">确认删除</span>}
                </button>
              </div>
            ))}
         </div>
       </div>
+
+      {deleted && (
+        <div className="absolute bottom-6 left-4 right-4 z-20 flex justify-between items-center px-4 py-3 rounded-2xl bg-slate-800/95 text-white shadow-xl animate-pop-in">
+          <span className="text-sm truncate">已删除「{deleted.entry.title}」</span>
+          <button onClick={undoDelete} className="ml-3 shrink-0 text-sm font-bold text-amber-400">撤销</button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import { ApiProvider, AttachmentData, ImageAttachment, ModelInfo } from "../types";
+import { idbDelete, idbGet, idbPut } from "./idb";
+
+// Images are downscaled before storage so they stay cheap to keep and to send
+const MAX_DIMENSION = 1280;
+const JPEG_QUALITY = 0.85;
+
+// Used when the model catalog has no modality metadata for the model
+const VISION_MODEL_REGEX = /gpt-4o|gpt-4\.1|gpt-5|vision|-vl\b|vl-|llava|pixtral|claude|gemini|gemma-3|qwen.*vl|glm-4v/i;
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('无法读取图片'));
+  image.src = src;
+});
+
+const downscaleImage = async (file: File) => {
+  const image = await loadImage(await readAsDataUrl(file));
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(image.width, image.height));
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no alpha, so transparent PNGs would otherwise turn black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return { width, height, data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+};
+
+export const saveAttachment = async (file: File): Promise<ImageAttachment> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`不支持的文件类型: ${file.name}`);
+  }
+  const { width, height, data } = await downscaleImage(file);
+  const attachment: ImageAttachment = {
+    id: `img_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    mimeType: 'image/jpeg',
+    width,
+    height,
+    name: file.name
+  };
+  await idbPut<AttachmentData>('attachments', attachment.id, { mimeType: attachment.mimeType, data });
+  return attachment;
+};
+
+export const deleteAttachment = (id: string) => idbDelete('attachments', id);
+
+export const loadAttachmentUrl = async (id: string) => {
+  const stored = await idbGet<AttachmentData>('attachments', id);
+  return stored ? `data:${stored.mimeType};base64,${stored.data}` : null;
+};
+
+// Missing entries (cleared storage, another device) are left out and sent as text placeholders
+export const loadAttachmentData = async (attachments: ImageAttachment[]) => {
+  const result: Record<string, AttachmentData> = {};
+  await Promise.all(attachments.map(async attachment => {
+    try {
+      const stored = await idbGet<AttachmentData>('attachments', attachment.id);
+      if (stored) result[attachment.id] = stored;
+    } catch (error) {
+      console.error("Failed to load attachment:", error);
+    }
+  }));
+  return result;
+};
+
+export const supportsVision = (provider: ApiProvider = 'openai', model: string, info?: ModelInfo) => {
+  if (info?.inputModalities) return info.inputModalities.includes('image');
+  if (provider === 'mock') return false;
+  if (provider === 'gemini' || provider === 'anthropic') return true;
+  return VISION_MODEL_REGEX.test(model);
+};
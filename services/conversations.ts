@@ -0,0 +1,46 @@
+import { ChatMessage, Conversation } from "../types";
+
+const STORAGE_KEY = 'os26_conversations';
+
+// Inspection snapshots repeat the whole system instruction, so only the latest replies keep one
+export const MAX_INSPECTED_REPLIES = 10;
+
+// Drops snapshots from all but the newest replies that have one
+export const pruneInspections = (messages: ChatMessage[]) => {
+  let kept = 0;
+  return messages.slice().reverse().map(m => {
+    if (!m.inspection) return m;
+    if (kept++ < MAX_INSPECTED_REPLIES) return m;
+    const { inspection: _inspection, ...rest } = m;
+    return rest;
+  }).reverse();
+};
+
+// Snapshots saved before they were slimmed down listed every history id and repeated the reply
+const migrateInspection = (message: ChatMessage): ChatMessage => {
+  const legacy = message.inspection as (ChatMessage['inspection'] & { historyIds?: string[]; rawResponse?: string }) | undefined;
+  if (!legacy?.historyIds) return message;
+  const { historyIds, rawResponse: _rawResponse, ...inspection } = legacy;
+  return { ...message, inspection: { ...inspection, historyFirstId: historyIds[0], historyCount: historyIds.length } };
+};
+
+export const loadConversations = (): Conversation[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  const conversations: Conversation[] = saved ? JSON.parse(saved) : [];
+  return conversations.map(c => ({ ...c, messages: pruneInspections(c.messages.map(migrateInspection)) }));
+};
+
+// A full quota must not take the app down: retry without snapshots, then give up on this write
+export const saveConversations = (conversations: Conversation[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(conversations));
+  } catch (error) {
+    console.error("Failed to save conversations, retrying without inspection snapshots:", error);
+    try {
+      const slim = conversations.map(c => ({ ...c, messages: c.messages.map(({ inspection: _inspection, ...m }) => m) }));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(slim));
+    } catch (retryError) {
+      console.error("Failed to save conversations:", retryError);
+    }
+  }
+};
@@ -0,0 +1,127 @@
+import { AppConfig, ChatMessage, WorldEntry } from "../types";
+import { getProvider } from "./providers";
+import { hashString, localEmbed } from "./providers/localEmbedding";
+import { getCatalogKey } from "./modelCatalog";
+import { idbGet, idbPut } from "./idb";
+
+const ENV_API_KEY = process.env.API_KEY;
+
+export const DEFAULT_TOP_K = 3;
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.2;
+
+// The query is the current message plus this many earlier ones
+const QUERY_HISTORY_MESSAGES = 2;
+
+interface CachedEmbedding {
+  hash: string; // Of the embedded text, so edited entries are re-embedded
+  vector: number[];
+}
+
+interface Embedder {
+  key: string; // Vectors from different models are not comparable, so the cache is split by this
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface RetrievedEntry {
+  entry: WorldEntry;
+  score: number;
+}
+
+const LOCAL_EMBEDDER: Embedder = { key: 'local', embed: async texts => texts.map(localEmbed) };
+
+// No embedding model configured, or a backend without an embeddings API, means the local stand-in
+const getEmbedder = (config: AppConfig, signal?: AbortSignal): Embedder => {
+  const model = config.embeddingModel?.trim();
+  const embed = getProvider(config.provider).embed;
+  if (!model || !embed) return LOCAL_EMBEDDER;
+  return {
+    key: `${getCatalogKey(config.provider, config.customApiUrl, config.endpoint)}|${model}`,
+    embed: texts => embed({
+      apiUrl: config.customApiUrl,
+      apiKey: config.customApiKey?.trim() || ENV_API_KEY || '',
+      endpoint: config.endpoint,
+      model,
+      texts,
+      signal
+    })
+  };
+};
+
+const entryText = (entry: WorldEntry) => `${entry.title}\n${entry.content}`;
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Only entries that are new or changed since they were last embedded hit the embedder
+const embedEntries = async (entries: WorldEntry[], embedder: Embedder) => {
+  const vectors = new Map<string, number[]>();
+  const stale: { entry: WorldEntry; hash: string }[] = [];
+
+  await Promise.all(entries.map(async entry => {
+    const hash = hashString(entryText(entry)).toString(16);
+    const cached = await idbGet<CachedEmbedding>('embeddings', `${embedder.key}|${entry.id}`).catch(() => undefined);
+    if (cached?.hash === hash) vectors.set(entry.id, cached.vector);
+    else stale.push({ entry, hash });
+  }));
+
+  if (stale.length > 0) {
+    const fresh = await embedder.embed(stale.map(({ entry }) => entryText(entry)));
+    await Promise.all(stale.map(async ({ entry, hash }, i) => {
+      const vector = fresh[i];
+      if (!vector) return;
+      vectors.set(entry.id, vector);
+      await idbPut<CachedEmbedding>('embeddings', `${embedder.key}|${entry.id}`, { hash, vector })
+        .catch(error => console.error("Failed to cache embedding:", error));
+    }));
+  }
+
+  return vectors;
+};
+
+const retrieveWith = async (entries: WorldEntry[], query: string, embedder: Embedder, topK: number) => {
+  const vectors = await embedEntries(entries, embedder);
+  const [queryVector] = await embedder.embed([query]);
+  return entries
+    .map(entry => {
+      const vector = vectors.get(entry.id);
+      return { entry, score: vector && queryVector ? cosineSimilarity(queryVector, vector) : 0 };
+    })
+    .filter(result => result.score >= (result.entry.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+};
+
+// Top-k vectorized entries most similar to the recent conversation, best first.
+// A failing embeddings endpoint falls back to the local stand-in rather than blocking the send.
+export const retrieveWorldEntries = async (
+  entries: WorldEntry[],
+  currentMessage: string,
+  history: ChatMessage[],
+  config: AppConfig,
+  signal?: AbortSignal
+): Promise<RetrievedEntry[]> => {
+  if (entries.length === 0) return [];
+  const query = [...history.slice(-QUERY_HISTORY_MESSAGES).map(m => m.text), currentMessage]
+    .filter(Boolean)
+    .join('\n');
+  if (!query.trim()) return [];
+
+  const topK = config.worldBookTopK ?? DEFAULT_TOP_K;
+  const embedder = getEmbedder(config, signal);
+  try {
+    return await retrieveWith(entries, query, embedder, topK);
+  } catch (error) {
+    if (signal?.aborted || embedder === LOCAL_EMBEDDER) throw error;
+    console.error("Embedding request failed, using local stand-in:", error);
+    return retrieveWith(entries, query, LOCAL_EMBEDDER, topK);
+  }
+};
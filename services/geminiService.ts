@@ -1,156 +1,260 @@
-
-import { WorldEntry, ChatMessage, AppConfig } from "../types";
+import { WorldEntry, ChatMessage, AppConfig, ApiProvider, ApiPreset, GenerationParams, PromptInspection, EndpointConfig, ImageAttachment, AttachmentData, TokenUsage } from "../types";
+import { getProvider } from "./providers";
+import { applyContextBudget, DEFAULT_ENTRY_DEPTH, DEFAULT_ENTRY_ORDER, estimateTokens } from "./tokenBudget";
+import { WORLD_ENTRY_POSITION_LABELS } from "./worldActivation";
+import { DEFAULT_GENERATION, mergeGenerationParams, pickSupportedParams } from "./generationParams";
+import { DEFAULT_MAX_RETRIES, getRetryDelay, isRetryableError, sleep } from "./retry";
+import { expandMacros } from "./macros";
+import { splitThinkTags, stripThinkTags } from "./reasoning";
+import { findModelInfo, getCatalogKey, saveModelCatalog } from "./modelCatalog";
+import { loadAttachmentData, supportsVision } from "./attachments";
 
 const ENV_API_KEY = process.env.API_KEY;
 
-// Helper to sanitize base URL
-// Ensure it points to the OpenAI-compatible v1 endpoint root if not specified
-const getBaseUrl = (url?: string) => {
-  let baseUrl = url ? url.trim() : "https://api.openai.com/v1";
-  // Remove trailing slash
-  if (baseUrl.endsWith('/')) {
-    baseUrl = baseUrl.slice(0, -1);
-  }
-  // Heuristic: if user input doesn't contain /v1, append it. 
-  // This is a common convention for these input fields.
-  if (!baseUrl.includes('/v1')) {
-     baseUrl = `${baseUrl}/v1`;
-  }
-  return baseUrl;
-};
+export interface ChatStreamOptions {
+  signal?: AbortSignal;
+  generationOverride?: GenerationParams; // Per-contact sampling overrides, applied on every preset in the chain
+  charName?: string; // Fills {{char}}
+  entryReasons?: Record<string, string>; // Why each world entry matched, keyed by id, for the inspector
+  worldBookLoops?: string[]; // Recursive activation loops, for the inspector
+  worldBookSkipped?: string[]; // Matched entries held back by timed effects, for the inspector
+  attachments?: ImageAttachment[]; // Images sent with the current message
+  summary?: string; // Long-term memory of the messages no longer sent as history
+}
 
-export const validateAndListModels = async (apiUrl: string, apiKey: string) => {
+export const validateAndListModels = async (apiUrl: string, apiKey: string, provider: ApiProvider = 'openai', endpoint?: EndpointConfig) => {
   try {
-    const baseUrl = getBaseUrl(apiUrl);
     const key = apiKey?.trim() || ENV_API_KEY || '';
-
-    const response = await fetch(`${baseUrl}/models`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${key}`,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-       throw new Error(`Failed to fetch models: ${response.status}`);
-    }
-
-    const data = await response.json();
-    // OpenAI List Models response: { data: [ { id: "..." }, ... ] }
-    if (data && Array.isArray(data.data)) {
-        return data.data.map((m: any) => m.id);
-    }
-    return [];
+    const models = await getProvider(provider).listModels(apiUrl, key, endpoint);
+    saveModelCatalog(getCatalogKey(provider, apiUrl, endpoint), models);
+    return models;
   } catch (error) {
     console.error("Failed to list models:", error);
     throw error;
   }
 };
 
-export const getGeminiResponseStream = async (
+const describePlacement = (entry: WorldEntry) => {
+  const position = entry.position || 'after_char';
+  const where = position === 'at_depth'
+    ? `${WORLD_ENTRY_POSITION_LABELS.at_depth} ${entry.depth ?? DEFAULT_ENTRY_DEPTH}`
+    : WORLD_ENTRY_POSITION_LABELS[position];
+  return `${where} · 顺序 ${entry.order ?? DEFAULT_ENTRY_ORDER}`;
+};
+
+const presetToConfig = (config: AppConfig, preset: ApiPreset): AppConfig => ({
+  ...config,
+  provider: preset.provider || 'openai',
+  customApiUrl: preset.apiUrl,
+  customApiKey: preset.apiKey,
+  model: preset.model,
+  endpoint: preset.endpoint,
+  contextSize: preset.contextSize,
+  responseReserve: preset.responseReserve,
+  generation: preset.generation,
+  disableStreaming: preset.disableStreaming,
+  mock: preset.mock
+});
+
+// The active connection is not stored as a preset id, so match it by its settings
+const describeConnection = (config: AppConfig) => {
+  const preset = config.presets?.find(p =>
+    (p.provider || 'openai') === (config.provider || 'openai') &&
+    p.apiUrl === (config.customApiUrl || '') &&
+    p.apiKey === (config.customApiKey || '') &&
+    p.model === config.model
+  );
+  return preset?.name || '当前连接';
+};
+
+const openStream = async (
   currentMessage: string,
   history: ChatMessage[],
   worldBook: WorldEntry[],
   config: AppConfig,
-  systemPromptOverride?: string
+  systemInstruction: string,
+  options: ChatStreamOptions,
+  attachmentData: Record<string, AttachmentData>
 ) => {
-  try {
-    const apiKey = config.customApiKey?.trim() || ENV_API_KEY;
-    if (!apiKey) {
-      throw new Error("System Environment Error: API Key not configured.");
-    }
-    
-    const baseUrl = getBaseUrl(config.customApiUrl);
-
-    // Construct System Instruction
-    const activeLore = worldBook
-      .filter((entry) => entry.active)
-      .map((entry) => `[${entry.title}]: ${entry.content}`)
-      .join("\n\n");
-
-    const baseSystemInstruction = systemPromptOverride || "你是一个居住在未来OS 26系统中的智能AI助手。请使用简体中文回答用户的问题。";
-    
-    const finalSystemInstruction = activeLore 
-      ? `${baseSystemInstruction}\n\n=== 世界书上下文 (已知事实) ===\n${activeLore}\n=================` 
-      : baseSystemInstruction;
-
-    // Build messages array
-    const messages = [
-        { role: 'system', content: finalSystemInstruction }
-    ];
-
-    history.forEach(msg => {
-        messages.push({
-            role: msg.role === 'model' ? 'assistant' : 'user',
-            content: msg.text
-        });
-    });
-
-    messages.push({ role: 'user', content: currentMessage });
-
-    const response = await fetch(`${baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-            model: config.model,
-            messages: messages,
-            stream: true,
-            temperature: 0.7 
-        })
-    });
-
-    if (!response.ok) {
-        const errText = await response.text();
-        throw new Error(`API Error ${response.status}: ${errText}`);
+  // The offline mock provider never leaves the browser, so it needs no key
+  const apiKey = config.customApiKey?.trim() || ENV_API_KEY || '';
+  if (!apiKey && config.provider !== 'mock') {
+    throw new Error("System Environment Error: API Key not configured.");
+  }
+
+  // An explicit context size wins; otherwise use what the model catalog discovered
+  const discovered = findModelInfo(getCatalogKey(config.provider, config.customApiUrl, config.endpoint), config.model);
+  // Fallback presets may point at text-only models, which get placeholders instead
+  const vision = supportsVision(config.provider, config.model, discovered);
+
+  // Construct System Instruction and fit everything into the context window
+  const budget = applyContextBudget({
+    systemPrompt: systemInstruction,
+    worldBook: worldBook.filter((entry) => entry.active),
+    // Only the visible reply goes back to the model; reasoning stays in ChatMessage.reasoning
+    history: history.map(m => ({ ...m, text: stripThinkTags(m.text) })),
+    currentMessage,
+    currentImageCount: options.attachments?.length,
+    contextSize: config.contextSize ?? discovered?.contextLength,
+    responseReserve: config.responseReserve,
+    worldBookBudget: config.worldBookBudget
+  });
+
+  const params = pickSupportedParams(
+    mergeGenerationParams(DEFAULT_GENERATION, config.generation, options.generationOverride),
+    config.provider,
+    config.model
+  );
+
+  const stream = await getProvider(config.provider).streamChat({
+    apiUrl: config.customApiUrl,
+    apiKey,
+    endpoint: config.endpoint,
+    model: config.model,
+    systemInstruction: budget.systemInstruction,
+    history: budget.history,
+    currentMessage,
+    currentAttachments: options.attachments,
+    injections: budget.injections,
+    attachmentData: vision ? attachmentData : undefined,
+    params,
+    maxOutputTokens: discovered?.maxOutputTokens,
+    stream: !config.disableStreaming,
+    mock: config.mock,
+    signal: options.signal
+  });
+
+  const describeEntry = (entry: WorldEntry) => ({
+    id: entry.id,
+    title: entry.title,
+    reason: options.entryReasons?.[entry.id] || '常驻条目',
+    placement: describePlacement(entry)
+  });
+  const inspection: Omit<PromptInspection, 'preset'> = {
+    provider: config.provider || 'openai',
+    model: config.model,
+    params,
+    stream: !config.disableStreaming,
+    systemInstruction: budget.systemInstruction,
+    worldEntries: budget.includedEntries.map(describeEntry),
+    droppedEntries: budget.droppedEntries.map(describeEntry),
+    worldBookTokens: budget.worldBookTokens,
+    worldBookBudget: budget.worldBookBudget,
+    worldBookLoops: options.worldBookLoops?.length ? options.worldBookLoops : undefined,
+    worldBookSkipped: options.worldBookSkipped?.length ? options.worldBookSkipped : undefined,
+    historyFirstId: budget.history[0]?.id,
+    historyCount: budget.history.length,
+    droppedMessageCount: budget.droppedMessageCount,
+    currentMessage,
+    estimatedTokens: budget.estimatedTokens
+  };
+
+  return Object.assign(splitThinkTags(stream), { budget, inspection });
+};
+
+// One-off completion on the active connection, without history or world book.
+// Used for housekeeping such as conversation summaries; returns the visible reply and what it cost.
+export const generateText = async (prompt: string, systemInstruction: string, config: AppConfig, signal?: AbortSignal) => {
+  const apiKey = config.customApiKey?.trim() || ENV_API_KEY || '';
+  if (!apiKey && config.provider !== 'mock') {
+    throw new Error("System Environment Error: API Key not configured.");
+  }
+
+  const stream = await getProvider(config.provider).streamChat({
+    apiUrl: config.customApiUrl,
+    apiKey,
+    endpoint: config.endpoint,
+    model: config.model,
+    systemInstruction,
+    history: [],
+    currentMessage: prompt,
+    params: pickSupportedParams(mergeGenerationParams(DEFAULT_GENERATION, config.generation), config.provider, config.model),
+    maxOutputTokens: findModelInfo(getCatalogKey(config.provider, config.customApiUrl, config.endpoint), config.model)?.maxOutputTokens,
+    stream: !config.disableStreaming,
+    mock: config.mock,
+    signal
+  });
+
+  let text = '';
+  let reasoning = '';
+  let usage: TokenUsage | undefined;
+  for await (const chunk of splitThinkTags(stream)) {
+    if (chunk.usage) usage = chunk.usage;
+    if (chunk.type === 'content') text += chunk.text;
+    else reasoning += chunk.text;
+  }
+  // Like chat replies, fall back to a local estimate when the provider reports nothing
+  return {
+    text: text.trim(),
+    usage: usage || {
+      promptTokens: estimateTokens(systemInstruction) + estimateTokens(prompt),
+      completionTokens: estimateTokens(reasoning) + estimateTokens(text),
+      estimated: true
     }
+  };
+};
 
-    if (!response.body) throw new Error("No response body");
-
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder("utf-8");
-
-    return {
-        [Symbol.asyncIterator]: async function* () {
-            let buffer = '';
-            try {
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-                    
-                    buffer += decoder.decode(value, { stream: true });
-                    const lines = buffer.split('\n');
-                    buffer = lines.pop() || ''; 
-
-                    for (const line of lines) {
-                        const trimmed = line.trim();
-                        if (!trimmed) continue;
-                        if (trimmed === 'data: [DONE]') return;
-                        if (trimmed.startsWith('data: ')) {
-                            try {
-                                const jsonStr = trimmed.slice(6);
-                                const json = JSON.parse(jsonStr);
-                                const content = json.choices?.[0]?.delta?.content;
-                                if (content) {
-                                    yield { text: content };
-                                }
-                            } catch (e) {
-                                console.error('Error parsing SSE:', e);
-                            }
-                        }
-                    }
-                }
-            } finally {
-                reader.releaseLock();
-            }
-        }
-    };
+export const getGeminiResponseStream = async (
+  currentMessage: string,
+  history: ChatMessage[],
+  worldBook: WorldEntry[],
+  config: AppConfig,
+  systemPromptOverride?: string,
+  options: ChatStreamOptions = {}
+) => {
+  // Macros are expanded once, before the retry chain, so {{random}} and {{roll}} stay stable across attempts
+  const macroContext = {
+    user: config.userPersonas?.find(p => p.id === config.currentPersonaId)?.name || config.userName,
+    char: options.charName || '',
+    history
+  };
+  const baseSystemInstruction = expandMacros(
+    systemPromptOverride || config.systemPrompt || "你是一个居住在未来OS 26系统中的智能AI助手。请使用简体中文回答用户的问题。",
+    macroContext
+  );
+  const summarizedInstruction = options.summary
+    ? `${baseSystemInstruction}\n\n=== 前情提要 (长期记忆) ===\n${options.summary}`
+    : baseSystemInstruction;
+  const expandedWorldBook = worldBook.map(entry => ({ ...entry, content: expandMacros(entry.content, macroContext) }));
+  const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const attachmentData = await loadAttachmentData([
+    ...history.flatMap(m => m.attachments || []),
+    ...(options.attachments || [])
+  ]);
 
-  } catch (error) {
-    console.error("OpenAI API Error:", error);
-    throw error;
+  // The active connection first, then the user-ordered fallback presets
+  const chain = [
+    { name: describeConnection(config), config },
+    ...(config.fallbackPresetIds || [])
+      .map(id => config.presets?.find(p => p.id === id))
+      .filter((p): p is ApiPreset => !!p)
+      .map(preset => ({ name: preset.name, config: presetToConfig(config, preset) }))
+  ];
+
+  let attempts = 0;
+  let lastError: unknown;
+
+  for (const link of chain) {
+    for (let retry = 0; retry <= maxRetries; retry++) {
+      attempts++;
+      try {
+        const stream = await openStream(currentMessage, history, expandedWorldBook, link.config, summarizedInstruction, options, attachmentData);
+        return Object.assign(stream, {
+          answeredBy: link.name,
+          model: link.config.model,
+          attempts,
+          inspection: { ...stream.inspection, preset: link.name } as PromptInspection
+        });
+      } catch (error) {
+        lastError = error;
+        if (options.signal?.aborted) throw error;
+        console.error(`Chat API Error (${link.name}, attempt ${attempts}):`, error);
+        // Non-transient failures (bad key, bad request) go straight to the next preset
+        if (!isRetryableError(error) || retry === maxRetries) break;
+        await sleep(getRetryDelay(retry, error), options.signal);
+      }
+    }
   }
+
+  throw lastError;
 };
@@ -0,0 +1,47 @@
+import { ApiProvider, GenerationParams } from "../types";
+
+export const DEFAULT_GENERATION: GenerationParams = {
+  temperature: 0.7
+};
+
+// Which knobs each wire format accepts; the rest are silently left out of the request
+export const SUPPORTED_PARAMS: Record<ApiProvider, (keyof GenerationParams)[]> = {
+  openai: ['temperature', 'maxTokens', 'topP', 'frequencyPenalty', 'presencePenalty', 'stopSequences'],
+  anthropic: ['temperature', 'maxTokens', 'topP', 'topK', 'stopSequences', 'thinkingBudget'],
+  gemini: ['temperature', 'maxTokens', 'topP', 'topK', 'frequencyPenalty', 'presencePenalty', 'stopSequences', 'thinkingBudget'],
+  mock: []
+};
+
+// Models that accept a thinking budget; older ones reject the request when it is set
+const THINKING_MODEL_REGEX: Partial<Record<ApiProvider, RegExp>> = {
+  anthropic: /claude-(3-7-sonnet|(opus|sonnet|haiku)-[4-9])/i,
+  gemini: /gemini-(2\.5|[3-9])/i
+};
+
+export const supportsThinking = (provider: ApiProvider = 'openai', model: string) =>
+  !!THINKING_MODEL_REGEX[provider]?.test(model);
+
+// Later layers win, but only for fields they actually set
+export const mergeGenerationParams = (...layers: (GenerationParams | undefined)[]) => {
+  const merged: GenerationParams = {};
+  layers.forEach(layer => {
+    if (!layer) return;
+    (Object.keys(layer) as (keyof GenerationParams)[]).forEach(key => {
+      const value = layer[key];
+      if (value === undefined || (Array.isArray(value) && value.length === 0)) return;
+      (merged as Record<string, unknown>)[key] = value;
+    });
+  });
+  return merged;
+};
+
+export const pickSupportedParams = (params: GenerationParams, provider: ApiProvider = 'openai', model = '') => {
+  const picked: GenerationParams = {};
+  SUPPORTED_PARAMS[provider].forEach(key => {
+    if (params[key] !== undefined) {
+      (picked as Record<string, unknown>)[key] = params[key];
+    }
+  });
+  if (!picked.thinkingBudget || !supportsThinking(provider, model)) delete picked.thinkingBudget;
+  return picked;
+};
@@ -0,0 +1,49 @@
+// Minimal promise wrapper around IndexedDB for data too large for localStorage.
+// Add new object stores to STORES and bump DB_VERSION.
+
+const DB_NAME = 'os26_files';
+const DB_VERSION = 2;
+const STORES = ['attachments', 'embeddings'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.forEach(store => {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGet = <T>(store: StoreName, key: string) =>
+  run<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbPut = <T>(store: StoreName, key: string, value: T) =>
+  run<IDBValidKey>(store, 'readwrite', s => s.put(value, key));
+
+export const idbDelete = (store: StoreName, key: string) =>
+  run<undefined>(store, 'readwrite', s => s.delete(key));
@@ -0,0 +1,451 @@
+import { SecondaryKeyLogic, WorldEntry, WorldEntryPosition } from "../types";
+import { DEFAULT_ENTRY_DEPTH, DEFAULT_ENTRY_ORDER } from "./tokenBudget";
+
+// Converts world books to and from SillyTavern World Info, the character_book block of
+// V2/V3 character cards, and our own format, which keeps every WorldEntry field.
+
+export type LorebookFormat = 'sillytavern' | 'character_book' | 'native';
+
+export const LOREBOOK_FORMAT_LABELS: Record<LorebookFormat, string> = {
+  sillytavern: 'SillyTavern 世界书',
+  character_book: '角色卡 character_book',
+  native: 'ZPhone 世界书'
+};
+
+export interface LorebookImportResult {
+  format: LorebookFormat;
+  name?: string;
+  entries: WorldEntry[];
+  unmapped: Record<string, number>; // Source field -> entries whose value could not be carried over
+}
+
+const NATIVE_FORMAT = 'zphone-worldbook';
+const NATIVE_VERSION = 1;
+
+// SillyTavern numbers positions; 2/3 (author's note) and 5/6 (example messages) have no counterpart here
+const ST_POSITIONS: Record<number, WorldEntryPosition> = { 0: 'before_char', 1: 'after_char', 4: 'at_depth' };
+const ST_POSITION_NUMBERS: Record<WorldEntryPosition, number> = { before_char: 0, after_char: 1, at_depth: 4 };
+
+const ST_SECONDARY_LOGIC: Record<number, SecondaryKeyLogic> = { 0: 'and_any', 1: 'not_all', 2: 'not_any', 3: 'and_all' };
+const ST_SECONDARY_LOGIC_NUMBERS: Record<SecondaryKeyLogic, number> = { and_any: 0, not_all: 1, not_any: 2, and_all: 3 };
+
+// Mapped below, or bookkeeping that means nothing outside the source tool
+const ST_HANDLED_FIELDS = new Set([
+  'uid', 'key', 'keysecondary', 'comment', 'content', 'constant', 'vectorized', 'selective',
+  'selectiveLogic', 'caseSensitive', 'matchWholeWords', 'scanDepth', 'preventRecursion', 'excludeRecursion',
+  'sticky', 'cooldown', 'delay', 'probability', 'useProbability', 'order', 'position', 'depth', 'disable', 'displayIndex', 'addMemo'
+]);
+const CARD_HANDLED_FIELDS = new Set([
+  'id', 'keys', 'secondary_keys', 'comment', 'name', 'content', 'constant', 'selective',
+  'insertion_order', 'enabled', 'position', 'case_sensitive', 'extensions'
+]);
+const CARD_HANDLED_EXTENSIONS = new Set([
+  'position', 'depth', 'display_index', 'vectorized', 'selectiveLogic', 'case_sensitive', 'match_whole_words', 'scan_depth',
+  'prevent_recursion', 'exclude_recursion', 'sticky', 'cooldown', 'delay', 'probability', 'useProbability'
+]);
+const CARD_HANDLED_BOOK_FIELDS = new Set(['name', 'entries', 'extensions']);
+// Native entries are WorldEntry objects; characterId and bookId point into the exporting install and are reported below
+const NATIVE_HANDLED_FIELDS = new Set([
+  'id', 'bookId', 'characterId', 'title', 'content', 'active', 'category', 'triggerKeywords', 'secondaryKeywords', 'secondaryLogic',
+  'caseSensitive', 'matchWholeWords', 'scanDepth', 'preventRecursion', 'excludeRecursion', 'sticky', 'cooldown',
+  'delay', 'probability', 'scope', 'vectorized', 'similarityThreshold', 'order', 'position', 'depth'
+]);
+
+// Values SillyTavern writes for untouched settings; these are not worth reporting
+const SOURCE_DEFAULTS: Record<string, unknown> = {
+  groupWeight: 100
+};
+
+const isMeaningful = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === false || value === '' || value === 0) return false;
+  if (Array.isArray(value) && value.length === 0) return false;
+  if (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0) return false;
+  return SOURCE_DEFAULTS[field] !== value;
+};
+
+const toStringList = (value: unknown) =>
+  Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+
+// Random suffix so importing the same file twice, or two files at once, never reuses an id
+const createId = () => `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+const count = (unmapped: Record<string, number>, field: string) => {
+  unmapped[field] = (unmapped[field] || 0) + 1;
+};
+
+interface RawEntryFields {
+  keys: string[];
+  secondaryKeys: string[];
+  secondaryLogic?: SecondaryKeyLogic;
+  caseSensitive: boolean;
+  matchWholeWords: boolean;
+  scanDepth?: number;
+  preventRecursion: boolean;
+  excludeRecursion: boolean;
+  sticky?: number;
+  cooldown?: number;
+  delay?: number;
+  probability?: number;
+  title?: string;
+  content: string;
+  enabled: boolean;
+  constant: boolean;
+  vectorized: boolean;
+  order?: number;
+  position?: WorldEntryPosition;
+  depth?: number;
+}
+
+const toWorldEntry = (fields: RawEntryFields, category: string, unmapped: Record<string, number>): WorldEntry => {
+  // Here an entry without keywords is always active, so a constant entry's keys have nowhere to go
+  if (fields.constant && fields.keys.length > 0) count(unmapped, 'key (常驻条目)');
+  const keywords = fields.constant ? [] : fields.keys;
+  return {
+    id: createId(),
+    title: fields.title?.trim() || fields.keys[0] || '未命名条目',
+    content: fields.content,
+    active: fields.enabled,
+    category,
+    triggerKeywords: keywords,
+    secondaryKeywords: fields.secondaryKeys.length ? fields.secondaryKeys : undefined,
+    secondaryLogic: fields.secondaryKeys.length && fields.secondaryLogic !== 'and_any' ? fields.secondaryLogic : undefined,
+    caseSensitive: fields.caseSensitive || undefined,
+    matchWholeWords: fields.matchWholeWords || undefined,
+    // Both sources write null for "use the global setting"; depth 0 has no counterpart here
+    scanDepth: fields.scanDepth !== undefined && fields.scanDepth >= 1 ? Math.round(fields.scanDepth) : undefined,
+    preventRecursion: fields.preventRecursion || undefined,
+    excludeRecursion: fields.excludeRecursion || undefined,
+    sticky: fields.sticky || undefined,
+    cooldown: fields.cooldown || undefined,
+    delay: fields.delay || undefined,
+    probability: fields.probability !== undefined && fields.probability < 100 ? Math.max(fields.probability, 0) : undefined,
+    scope: 'global',
+    vectorized: fields.vectorized || undefined,
+    order: fields.order,
+    position: fields.position,
+    depth: fields.position === 'at_depth' ? fields.depth ?? DEFAULT_ENTRY_DEPTH : undefined
+  };
+};
+
+const collectUnmapped = (source: Record<string, unknown>, handled: Set<string>, unmapped: Record<string, number>, prefix = '') => {
+  Object.entries(source).forEach(([field, value]) => {
+    if (!handled.has(field) && isMeaningful(field, value)) count(unmapped, prefix + field);
+  });
+};
+
+const toNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const mapStPosition = (value: unknown, unmapped: Record<string, number>, field: string) => {
+  const position = toNumber(value);
+  if (position === undefined) return undefined;
+  if (!(position in ST_POSITIONS)) {
+    count(unmapped, field);
+    return undefined;
+  }
+  return ST_POSITIONS[position];
+};
+
+const mapStSecondaryLogic = (value: unknown, unmapped: Record<string, number>, field: string) => {
+  const logic = toNumber(value);
+  if (logic === undefined) return undefined;
+  if (!(logic in ST_SECONDARY_LOGIC)) {
+    count(unmapped, field);
+    return undefined;
+  }
+  return ST_SECONDARY_LOGIC[logic];
+};
+
+// Secondary keys are only checked while selective is on; otherwise the source ignores them too
+const readSecondaryKeys = (value: unknown, selective: unknown, unmapped: Record<string, number>, field: string) => {
+  const keys = toStringList(value);
+  if (selective === true || keys.length === 0) return keys;
+  count(unmapped, `${field} (未启用 selective)`);
+  return [];
+};
+
+// Same field names in SillyTavern entries and card extensions; probability only counts when in use
+const readTimedEffects = (source: Record<string, unknown>) => ({
+  sticky: toNumber(source.sticky),
+  cooldown: toNumber(source.cooldown),
+  delay: toNumber(source.delay),
+  probability: source.useProbability === false ? undefined : toNumber(source.probability)
+});
+
+const writeTimedEffects = (entry: WorldEntry) => ({
+  sticky: entry.sticky ?? 0,
+  cooldown: entry.cooldown ?? 0,
+  delay: entry.delay ?? 0,
+  probability: entry.probability ?? 100,
+  useProbability: true
+});
+
+const importSillyTavern = (data: any, category: string): LorebookImportResult => {
+  const unmapped: Record<string, number> = {};
+  const raw = Object.values(data.entries || {}) as Record<string, any>[];
+  // displayIndex is the order entries were listed in; keep it
+  raw.sort((a, b) => (toNumber(a.displayIndex) ?? 0) - (toNumber(b.displayIndex) ?? 0));
+
+  const entries = raw.map(entry => {
+    collectUnmapped(entry, ST_HANDLED_FIELDS, unmapped);
+    return toWorldEntry({
+      keys: toStringList(entry.key),
+      secondaryKeys: readSecondaryKeys(entry.keysecondary, entry.selective, unmapped, 'keysecondary'),
+      secondaryLogic: mapStSecondaryLogic(entry.selectiveLogic, unmapped, 'selectiveLogic'),
+      // null means "use the global setting" there; only an explicit true carries over
+      caseSensitive: entry.caseSensitive === true,
+      matchWholeWords: entry.matchWholeWords === true,
+      scanDepth: toNumber(entry.scanDepth),
+      preventRecursion: !!entry.preventRecursion,
+      excludeRecursion: !!entry.excludeRecursion,
+      ...readTimedEffects(entry),
+      title: entry.comment,
+      content: String(entry.content ?? ''),
+      enabled: !entry.disable,
+      constant: !!entry.constant,
+      vectorized: !!entry.vectorized,
+      order: toNumber(entry.order),
+      position: mapStPosition(entry.position, unmapped, 'position'),
+      depth: toNumber(entry.depth)
+    }, category, unmapped);
+  });
+
+  return { format: 'sillytavern', entries, unmapped };
+};
+
+const importCharacterBook = (book: any, category: string): LorebookImportResult => {
+  const unmapped: Record<string, number> = {};
+  collectUnmapped(book, CARD_HANDLED_BOOK_FIELDS, unmapped, 'character_book.');
+
+  const entries = (book.entries as Record<string, any>[]).map(entry => {
+    const extensions: Record<string, unknown> = entry.extensions || {};
+    collectUnmapped(entry, CARD_HANDLED_FIELDS, unmapped);
+    collectUnmapped(extensions, CARD_HANDLED_EXTENSIONS, unmapped, 'extensions.');
+    // SillyTavern keeps its numeric position in extensions; it is more precise than the spec's two values
+    const position = mapStPosition(extensions.position, unmapped, 'extensions.position')
+      ?? (entry.position === 'before_char' || entry.position === 'after_char' ? entry.position : undefined);
+    return toWorldEntry({
+      keys: toStringList(entry.keys),
+      secondaryKeys: readSecondaryKeys(entry.secondary_keys, entry.selective, unmapped, 'secondary_keys'),
+      secondaryLogic: mapStSecondaryLogic(extensions.selectiveLogic, unmapped, 'extensions.selectiveLogic'),
+      caseSensitive: entry.case_sensitive === true || extensions.case_sensitive === true,
+      matchWholeWords: extensions.match_whole_words === true,
+      scanDepth: toNumber(extensions.scan_depth),
+      preventRecursion: !!extensions.prevent_recursion,
+      excludeRecursion: !!extensions.exclude_recursion,
+      ...readTimedEffects(extensions),
+      title: entry.comment || entry.name,
+      content: String(entry.content ?? ''),
+      enabled: entry.enabled !== false,
+      constant: !!entry.constant,
+      vectorized: !!extensions.vectorized,
+      order: toNumber(entry.insertion_order),
+      position,
+      depth: toNumber(extensions.depth)
+    }, category, unmapped);
+  });
+
+  return { format: 'character_book', name: book.name || undefined, entries, unmapped };
+};
+
+// Same checks as the other formats: a value of the wrong type is reported rather than carried over
+const importNative = (data: any, category: string): LorebookImportResult => {
+  const unmapped: Record<string, number> = {};
+  const entries = (data.entries as Record<string, any>[])
+    .filter(entry => typeof entry.title === 'string' && typeof entry.content === 'string')
+    .map((entry): WorldEntry => {
+      // Contacts and books are other ids on the exporting install; entries land in the open book, for everyone
+      if (entry.scope === 'character' || entry.characterId) count(unmapped, 'characterId (绑定角色)');
+      if (entry.bookId) count(unmapped, 'bookId');
+      collectUnmapped(entry, NATIVE_HANDLED_FIELDS, unmapped);
+
+      const list = (field: string) => {
+        if (entry[field] !== undefined && !Array.isArray(entry[field])) count(unmapped, field);
+        const values = toStringList(entry[field]);
+        return values.length ? values : undefined;
+      };
+      const number = (field: string) => {
+        const value = toNumber(entry[field]);
+        if (value === undefined && entry[field] !== undefined && entry[field] !== null) count(unmapped, field);
+        return value;
+      };
+      const flag = (field: string) => entry[field] === true || undefined;
+      const oneOf = <T extends string>(field: string, allowed: Record<T, unknown>) => {
+        if (entry[field] === undefined) return undefined;
+        if (typeof entry[field] === 'string' && entry[field] in allowed) return entry[field] as T;
+        count(unmapped, field);
+        return undefined;
+      };
+
+      const position = oneOf('position', ST_POSITION_NUMBERS);
+      const triggerKeywords = list('triggerKeywords');
+      // Without readable keywords the entry would turn into an always-on one; import it switched off instead
+      const keywordsLost = entry.triggerKeywords !== undefined && !Array.isArray(entry.triggerKeywords);
+      return {
+        id: createId(),
+        title: entry.title,
+        content: entry.content,
+        active: entry.active !== false && !keywordsLost,
+        category: typeof entry.category === 'string' && entry.category.trim() ? entry.category : category,
+        triggerKeywords,
+        secondaryKeywords: list('secondaryKeywords'),
+        secondaryLogic: oneOf('secondaryLogic', ST_SECONDARY_LOGIC_NUMBERS),
+        caseSensitive: flag('caseSensitive'),
+        matchWholeWords: flag('matchWholeWords'),
+        scanDepth: number('scanDepth'),
+        preventRecursion: flag('preventRecursion'),
+        excludeRecursion: flag('excludeRecursion'),
+        sticky: number('sticky'),
+        cooldown: number('cooldown'),
+        delay: number('delay'),
+        probability: number('probability'),
+        scope: 'global',
+        vectorized: flag('vectorized'),
+        similarityThreshold: number('similarityThreshold'),
+        order: number('order'),
+        position,
+        depth: position === 'at_depth' ? number('depth') : undefined
+      };
+    });
+  return { format: 'native', name: typeof data.name === 'string' ? data.name : undefined, entries, unmapped };
+};
+
+// `fallbackName` (usually the file name) becomes the category when the source has no name
+export const importLorebook = (data: any, fallbackName: string): LorebookImportResult => {
+  if (!data || typeof data !== 'object') throw new Error('文件内容不是有效的 JSON 对象');
+
+  if (data.format === NATIVE_FORMAT && Array.isArray(data.entries)) {
+    return importNative(data, data.name || fallbackName);
+  }
+
+  // V2/V3 character card, or a bare character_book block
+  const card = typeof data.spec === 'string' && data.spec.startsWith('chara_card') ? data.data : undefined;
+  if (card) {
+    if (!card.character_book?.entries) throw new Error('该角色卡没有内置世界书');
+    return importCharacterBook(card.character_book, card.character_book.name || card.name || fallbackName);
+  }
+  if (Array.isArray(data.entries)) {
+    return importCharacterBook(data, data.name || fallbackName);
+  }
+
+  if (data.entries && typeof data.entries === 'object') {
+    return importSillyTavern(data, fallbackName);
+  }
+
+  throw new Error('无法识别的世界书格式');
+};
+
+// PNG character cards carry their JSON base64-encoded in a tEXt chunk ('ccv3' for V3, 'chara' for V2)
+const extractPngCard = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const latin1 = new TextDecoder('latin1');
+  const texts: Record<string, string> = {};
+  let offset = 8; // PNG signature
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    if (type === 'tEXt') {
+      const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+      const separator = chunk.indexOf(0);
+      const keyword = latin1.decode(chunk.subarray(0, separator));
+      texts[keyword.toLowerCase()] = latin1.decode(chunk.subarray(separator + 1));
+    }
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  const encoded = texts.ccv3 || texts.chara;
+  if (!encoded) throw new Error('图片中没有角色卡数据');
+  const decoded = Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+  return new TextDecoder().decode(decoded);
+};
+
+export const readLorebookFile = async (file: File) => {
+  const isPng = file.type === 'image/png' || file.name.toLowerCase().endsWith('.png');
+  const text = isPng ? extractPngCard(await file.arrayBuffer()) : await file.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+};
+
+const isConstant = (entry: WorldEntry) => !entry.triggerKeywords?.length && !entry.vectorized;
+
+const exportSillyTavern = (entries: WorldEntry[]) => ({
+  entries: Object.fromEntries(entries.map((entry, index) => [String(index), {
+    uid: index,
+    key: entry.triggerKeywords || [],
+    keysecondary: entry.secondaryKeywords || [],
+    comment: entry.title,
+    content: entry.content,
+    constant: isConstant(entry),
+    vectorized: !!entry.vectorized,
+    selective: !!entry.secondaryKeywords?.length,
+    selectiveLogic: ST_SECONDARY_LOGIC_NUMBERS[entry.secondaryLogic || 'and_any'],
+    caseSensitive: !!entry.caseSensitive,
+    matchWholeWords: !!entry.matchWholeWords,
+    scanDepth: entry.scanDepth ?? null,
+    preventRecursion: !!entry.preventRecursion,
+    excludeRecursion: !!entry.excludeRecursion,
+    ...writeTimedEffects(entry),
+    addMemo: true,
+    order: entry.order ?? DEFAULT_ENTRY_ORDER,
+    position: ST_POSITION_NUMBERS[entry.position || 'after_char'],
+    depth: entry.depth ?? DEFAULT_ENTRY_DEPTH,
+    disable: !entry.active,
+    displayIndex: index
+  }]))
+});
+
+const exportCharacterBook = (entries: WorldEntry[], name: string) => ({
+  name,
+  entries: entries.map((entry, index) => ({
+    id: index,
+    keys: entry.triggerKeywords || [],
+    secondary_keys: entry.secondaryKeywords || [],
+    comment: entry.title,
+    name: entry.title,
+    content: entry.content,
+    enabled: entry.active,
+    constant: isConstant(entry),
+    selective: !!entry.secondaryKeywords?.length,
+    insertion_order: entry.order ?? DEFAULT_ENTRY_ORDER,
+    case_sensitive: !!entry.caseSensitive,
+    // The spec only knows two positions; SillyTavern reads the exact one from extensions
+    position: entry.position === 'before_char' ? 'before_char' : 'after_char',
+    extensions: {
+      position: ST_POSITION_NUMBERS[entry.position || 'after_char'],
+      depth: entry.depth ?? DEFAULT_ENTRY_DEPTH,
+      display_index: index,
+      vectorized: !!entry.vectorized,
+      selectiveLogic: ST_SECONDARY_LOGIC_NUMBERS[entry.secondaryLogic || 'and_any'],
+      case_sensitive: !!entry.caseSensitive,
+      match_whole_words: !!entry.matchWholeWords,
+      scan_depth: entry.scanDepth ?? null,
+      prevent_recursion: !!entry.preventRecursion,
+      exclude_recursion: !!entry.excludeRecursion,
+      ...writeTimedEffects(entry)
+    }
+  })),
+  extensions: {}
+});
+
+export const exportLorebook = (entries: WorldEntry[], format: LorebookFormat, name: string) => {
+  switch (format) {
+    case 'sillytavern':
+      return exportSillyTavern(entries);
+    case 'character_book':
+      return exportCharacterBook(entries, name);
+    default:
+      return { format: NATIVE_FORMAT, version: NATIVE_VERSION, name, exportedAt: Date.now(), entries };
+  }
+};
+
+export const downloadJson = (data: unknown, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
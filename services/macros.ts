@@ -0,0 +1,79 @@
+import { ChatMessage } from "../types";
+
+// Expands {{macro}} placeholders in prompts and world entries.
+// Unknown names are left as written; a leading backslash (\{{user}}) keeps a macro literal.
+
+export interface MacroContext {
+  user: string;
+  char: string;
+  history?: ChatMessage[]; // Messages before the one being sent, for {{idle_duration}}
+  now?: Date;
+}
+
+const MACRO_REGEX = /(\\?)\{\{\s*([a-zA-Z_]+)\s*(?::([^}]*))?\}\}/g;
+const DICE_REGEX = /^\s*(\d*)\s*d\s*(\d+)\s*([+-]\s*\d+)?\s*$/i;
+const MAX_DICE = 100;
+
+const WEEKDAYS = ['星期日', '星期一', '星期二', '星期三', '星期四', '星期五', '星期六'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '刚刚';
+  if (minutes < 60) return `${minutes} 分钟`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} 小时`;
+  return `${Math.floor(hours / 24)} 天`;
+};
+
+// "2d6", "d20", "3d8+2"; returns undefined for anything else so the macro stays intact
+const rollDice = (spec: string) => {
+  const match = spec.match(DICE_REGEX);
+  if (!match) return undefined;
+  const count = match[1] ? parseInt(match[1], 10) : 1;
+  const sides = parseInt(match[2], 10);
+  const modifier = match[3] ? parseInt(match[3].replace(/\s/g, ''), 10) : 0;
+  if (count < 1 || count > MAX_DICE || sides < 1) return undefined;
+  let total = modifier;
+  for (let i = 0; i < count; i++) {
+    total += 1 + Math.floor(Math.random() * sides);
+  }
+  return String(total);
+};
+
+const resolveMacro = (name: string, arg: string | undefined, context: MacroContext) => {
+  const now = context.now || new Date();
+  switch (name.toLowerCase()) {
+    case 'user':
+      return context.user;
+    case 'char':
+      return context.char;
+    case 'time':
+      return `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+    case 'date':
+      return `${now.getFullYear()}年${now.getMonth() + 1}月${now.getDate()}日`;
+    case 'weekday':
+      return WEEKDAYS[now.getDay()];
+    case 'idle_duration': {
+      const lastUserMessage = [...(context.history || [])].reverse().find(m => m.role === 'user');
+      return lastUserMessage ? formatDuration(now.getTime() - lastUserMessage.timestamp) : '刚刚';
+    }
+    case 'random': {
+      const options = (arg || '').split(',').map(o => o.trim()).filter(Boolean);
+      return options.length ? options[Math.floor(Math.random() * options.length)] : undefined;
+    }
+    case 'roll':
+      return arg === undefined ? undefined : rollDice(arg);
+    default:
+      return undefined;
+  }
+};
+
+export const expandMacros = (text: string, context: MacroContext) => {
+  if (!text || !text.includes('{{')) return text;
+  return text.replace(MACRO_REGEX, (match, escape: string, name: string, arg: string | undefined) => {
+    if (escape) return match.slice(1);
+    return resolveMacro(name, arg, context) ?? match;
+  });
+};
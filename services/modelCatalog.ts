@@ -0,0 +1,68 @@
+import { ApiProvider, EndpointConfig, ModelCatalog, ModelInfo } from "../types";
+
+const STORAGE_KEY = 'os26_model_catalog';
+const QUIRKS_STORAGE_KEY = 'os26_endpoint_quirks';
+
+// What an endpoint turned out not to accept, learned from its error responses
+export interface EndpointQuirks {
+  noStreamUsage?: boolean; // Rejects stream_options, so usage is estimated locally
+}
+
+// Presets that point at the same endpoint share one model list
+export const getCatalogKey = (provider: ApiProvider = 'openai', apiUrl?: string, endpoint?: EndpointConfig) =>
+  [provider, apiUrl?.trim().replace(/\/+$/, '') || '', endpoint?.azure ? 'azure' : ''].join('|');
+
+const readAll = (): Record<string, ModelCatalog> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const loadModelCatalog = (key: string): ModelCatalog | undefined => readAll()[key];
+
+export const saveModelCatalog = (key: string, models: ModelInfo[]) => {
+  const catalog: ModelCatalog = { models, fetchedAt: Date.now() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [key]: catalog }));
+  return catalog;
+};
+
+const readAllQuirks = (): Record<string, EndpointQuirks> => {
+  try {
+    const saved = localStorage.getItem(QUIRKS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const loadEndpointQuirks = (key: string): EndpointQuirks => readAllQuirks()[key] || {};
+
+export const saveEndpointQuirks = (key: string, patch: EndpointQuirks) => {
+  const all = readAllQuirks();
+  localStorage.setItem(QUIRKS_STORAGE_KEY, JSON.stringify({ ...all, [key]: { ...all[key], ...patch } }));
+};
+
+export const findModelInfo = (key: string, modelId: string) =>
+  loadModelCatalog(key)?.models.find(m => m.id === modelId);
+
+export type ModalityFilter = 'all' | 'image';
+
+// Models without modality metadata are treated as text-only
+export const filterModels = (models: ModelInfo[], query: string, modality: ModalityFilter = 'all') => {
+  const q = query.trim().toLowerCase();
+  return models.filter(m => {
+    if (q && !m.id.toLowerCase().includes(q) && !m.name?.toLowerCase().includes(q)) return false;
+    if (modality === 'image') return !!m.inputModalities?.includes('image');
+    return true;
+  });
+};
+
+export const formatContextLength = (tokens?: number) => {
+  if (!tokens) return '';
+  if (tokens >= 1_000_000) return `${+(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}k`;
+  return String(tokens);
+};
@@ -0,0 +1,179 @@
+import { EndpointConfig, ModelInfo } from "../../types";
+import { ChatProvider, ChatRequest, StreamChunk } from "./types";
+import { toApiError } from "./errors";
+import { singleChunkStream } from "./stream";
+import { readSSE, parseSSEJson, throwIfErrorPayload } from "../sse";
+import { resolveBaseUrl, withExtraHeaders } from "./endpoint";
+import { resolveAttachments } from "./attachments";
+import { buildTurns, toSystemNote } from "./turns";
+
+const ANTHROPIC_VERSION = '2023-06-01';
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+// Smallest thinking budget the API accepts
+const MIN_THINKING_BUDGET = 1024;
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+
+const getHeaders = (apiKey: string, endpoint?: EndpointConfig) => withExtraHeaders({
+  'Content-Type': 'application/json',
+  'x-api-key': apiKey,
+  'anthropic-version': ANTHROPIC_VERSION,
+  // Needed for CORS when calling the API straight from the browser
+  'anthropic-dangerous-direct-browser-access': 'true'
+}, endpoint);
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+type AnthropicMessage = { role: 'user' | 'assistant'; content: AnthropicBlock[] };
+
+// The Messages API rejects consecutive turns with the same role and
+// requires the conversation to open with a user turn.
+const buildMessages = (request: ChatRequest) => {
+  const toBlocks = (text: string, attachments: ChatRequest['currentAttachments']): AnthropicBlock[] => {
+    const resolved = resolveAttachments(text, attachments, request);
+    return [
+      // Images first, as the API docs recommend
+      ...resolved.images.map(image => ({
+        type: 'image' as const,
+        source: { type: 'base64' as const, media_type: image.mimeType, data: image.data }
+      })),
+      ...(resolved.text.trim() ? [{ type: 'text' as const, text: resolved.text }] : [])
+    ];
+  };
+
+  // System text is only accepted at the top level, so injections become user text
+  const turns: AnthropicMessage[] = buildTurns(request).map(turn => ({
+    role: turn.role === 'model' ? 'assistant' as const : 'user' as const,
+    content: toBlocks(turn.role === 'system' ? toSystemNote(turn.text) : turn.text, turn.attachments)
+  }));
+
+  const messages: AnthropicMessage[] = [];
+  turns.forEach(turn => {
+    if (turn.content.length === 0) return;
+    const last = messages[messages.length - 1];
+    if (last && last.role === turn.role) {
+      last.content = [...last.content, ...turn.content];
+    } else {
+      messages.push({ ...turn });
+    }
+  });
+
+  if (messages.length > 0 && messages[0].role === 'assistant') {
+    messages.unshift({ role: 'user', content: [{ type: 'text', text: '(对话开始)' }] });
+  }
+  return messages;
+};
+
+const listModels = async (apiUrl: string, apiKey: string, endpoint?: EndpointConfig) => {
+  const baseUrl = resolveBaseUrl(apiUrl, DEFAULT_BASE_URL, endpoint);
+
+  const response = await fetch(`${baseUrl}/models?limit=1000`, {
+    method: 'GET',
+    headers: getHeaders(apiKey, endpoint)
+  });
+
+  if (!response.ok) {
+     throw new Error(`Failed to fetch models: ${response.status}`);
+  }
+
+  const data = await response.json();
+  // Anthropic List Models response: { data: [ { id: "...", display_name: "..." }, ... ] }
+  // Every current Claude model takes text and images
+  if (data && Array.isArray(data.data)) {
+      return data.data.map((m: any): ModelInfo => ({
+        id: m.id,
+        name: m.display_name,
+        contextLength: typeof m.max_input_tokens === 'number' ? m.max_input_tokens : undefined,
+        maxOutputTokens: typeof m.max_tokens === 'number' ? m.max_tokens : undefined,
+        inputModalities: ['text', 'image']
+      }));
+  }
+  return [];
+};
+
+const streamChat = async (request: ChatRequest) => {
+  const baseUrl = resolveBaseUrl(request.apiUrl, DEFAULT_BASE_URL, request.endpoint);
+  const limit = request.maxOutputTokens;
+  const maxTokens = Math.min(request.params.maxTokens || DEFAULT_MAX_TOKENS, limit ?? Infinity);
+  // Thinking counts against max_tokens, so the budget is added on top to keep the reply length.
+  // Past the model's output limit the budget shrinks instead, and thinking is dropped below the minimum.
+  // The API rejects temperature, top_p and top_k changes while thinking is on.
+  const requestedBudget = request.params.thinkingBudget
+    ? Math.min(Math.max(request.params.thinkingBudget, MIN_THINKING_BUDGET), (limit ?? Infinity) - maxTokens)
+    : 0;
+  const thinkingBudget = requestedBudget >= MIN_THINKING_BUDGET ? requestedBudget : undefined;
+
+  const response = await fetch(`${baseUrl}/messages`, {
+      method: 'POST',
+      headers: getHeaders(request.apiKey, request.endpoint),
+      signal: request.signal,
+      body: JSON.stringify({
+          model: request.model,
+          system: request.systemInstruction,
+          messages: buildMessages(request),
+          max_tokens: thinkingBudget ? maxTokens + thinkingBudget : maxTokens,
+          thinking: thinkingBudget ? { type: 'enabled', budget_tokens: thinkingBudget } : undefined,
+          stream: request.stream,
+          temperature: thinkingBudget ? undefined : request.params.temperature,
+          top_p: thinkingBudget ? undefined : request.params.topP,
+          top_k: thinkingBudget ? undefined : request.params.topK,
+          stop_sequences: request.params.stopSequences
+      })
+  });
+
+  if (!response.ok) {
+      throw await toApiError(response);
+  }
+
+  if (!request.stream) {
+      const json = await response.json();
+      throwIfErrorPayload(json);
+      const blocks: any[] = Array.isArray(json.content) ? json.content : [];
+      const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+      const thinking = blocks.filter(block => block.type === 'thinking').map(block => block.thinking).join('');
+      return singleChunkStream(text, json.usage ? {
+        promptTokens: json.usage.input_tokens || 0,
+        completionTokens: json.usage.output_tokens || 0
+      } : undefined, thinking);
+  }
+
+  if (!response.body) throw new Error("No response body");
+  const body = response.body;
+
+  return {
+      [Symbol.asyncIterator]: async function* (): AsyncGenerator<StreamChunk> {
+          // Input tokens arrive with message_start, output tokens with message_delta
+          let promptTokens = 0;
+          let completionTokens = 0;
+          for await (const event of readSSE(body, request.signal)) {
+              // `event: error` frames and error payloads are raised by parseSSEJson
+              const json = parseSSEJson(event);
+              if (!json) continue;
+
+              if (json.type === 'content_block_delta' && json.delta?.type === 'text_delta') {
+                  if (json.delta.text) {
+                      yield { type: 'content', text: json.delta.text as string };
+                  }
+              } else if (json.type === 'content_block_delta' && json.delta?.type === 'thinking_delta') {
+                  if (json.delta.thinking) {
+                      yield { type: 'reasoning', text: json.delta.thinking as string };
+                  }
+              } else if (json.type === 'message_start') {
+                  promptTokens = json.message?.usage?.input_tokens || 0;
+              } else if (json.type === 'message_delta') {
+                  completionTokens = json.usage?.output_tokens || completionTokens;
+              } else if (json.type === 'message_stop') {
+                  yield { type: 'content', text: '', usage: { promptTokens, completionTokens } };
+                  return;
+              }
+          }
+      }
+  };
+};
+
+export const anthropicProvider: ChatProvider = {
+  streamChat,
+  listModels
+};
@@ -0,0 +1,20 @@
+import { AttachmentData, ImageAttachment } from "../../types";
+import { ChatRequest } from "./types";
+
+export const describeAttachment = (attachment: ImageAttachment) =>
+  `[图片: ${attachment.name || '未命名'} (${attachment.width}×${attachment.height})]`;
+
+// Images with data are sent as content parts; anything else is described in the text
+// so non-vision models still know something was shared.
+export const resolveAttachments = (text: string, attachments: ImageAttachment[] | undefined, request: ChatRequest) => {
+  const images: AttachmentData[] = [];
+  const placeholders: string[] = [];
+  (attachments || []).forEach(attachment => {
+    const data = request.attachmentData?.[attachment.id];
+    if (data) images.push(data);
+    else placeholders.push(describeAttachment(attachment));
+  });
+  return { text: [text, ...placeholders].filter(Boolean).join('\n'), images };
+};
+
+export const toDataUrl = (image: AttachmentData) => `data:${image.mimeType};base64,${image.data}`;
@@ -0,0 +1,36 @@
+import { EndpointConfig } from "../../types";
+
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+// The URL is used as given; /v1 is only added when the preset opts in
+export const resolveBaseUrl = (url: string | undefined, fallback: string, endpoint?: EndpointConfig) => {
+  let baseUrl = (url?.trim() || fallback).replace(/\/+$/, '');
+  if (endpoint?.appendV1 && !/\/v\d+(\/|$)/.test(baseUrl)) {
+    baseUrl = `${baseUrl}/v1`;
+  }
+  return baseUrl;
+};
+
+// Azure OpenAI: {resource}/openai/deployments/{name}{path}?api-version=...
+// A URL that already points at a deployment is kept and only gets the path appended.
+export const buildAzureUrl = (apiUrl: string | undefined, endpoint: EndpointConfig, deployment: string | undefined, path: string) => {
+  if (!apiUrl?.trim()) {
+    throw new Error('Azure 模式需要填写资源地址，例如 https://{resource}.openai.azure.com');
+  }
+  const url = new URL(apiUrl.trim());
+  let pathname = url.pathname.replace(/\/+$/, '');
+  if (deployment !== undefined && !pathname.includes('/openai/deployments/')) {
+    pathname = `${pathname}/openai/deployments/${encodeURIComponent(deployment)}`;
+  }
+  url.pathname = `${pathname}${path}`;
+  if (!url.searchParams.has('api-version')) {
+    url.searchParams.set('api-version', endpoint.azureApiVersion?.trim() || DEFAULT_AZURE_API_VERSION);
+  }
+  return url.toString();
+};
+
+// Extra headers go last so a preset can override the defaults on purpose
+export const withExtraHeaders = (headers: Record<string, string>, endpoint?: EndpointConfig) => ({
+  ...headers,
+  ...endpoint?.extraHeaders
+});
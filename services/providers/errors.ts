@@ -0,0 +1,47 @@
+// HTTP-level failure from a provider endpoint. Carries what the retry logic needs.
+export class ApiError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (header: string | null) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(seconds, 0) * 1000;
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(date - Date.now(), 0);
+  return undefined;
+};
+
+export const toApiError = async (response: Response) => {
+  const errText = await response.text();
+  return new ApiError(
+    response.status,
+    `API Error ${response.status}: ${errText}`,
+    parseRetryAfter(response.headers.get('retry-after'))
+  );
+};
+
+// Failure reported inside an otherwise successful (HTTP 200) stream,
+// e.g. an `event: error` frame or a proxy injecting `{"error": {...}}` mid-stream.
+export class StreamError extends Error {
+  code?: string;
+  type?: string;
+  payload?: unknown;
+
+  constructor(message: string, details: { code?: string; type?: string; payload?: unknown } = {}) {
+    super(message);
+    this.name = 'StreamError';
+    this.code = details.code;
+    this.type = details.type;
+    this.payload = details.payload;
+  }
+}
@@ -0,0 +1,131 @@
+import { GoogleGenAI, Content, GenerateContentResponse, GenerateContentResponseUsageMetadata, Part } from "@google/genai";
+import { EndpointConfig, ImageAttachment, ModelInfo, TokenUsage } from "../../types";
+import { ChatProvider, ChatRequest, EmbeddingRequest, StreamChunk } from "./types";
+import { singleChunkStream } from "./stream";
+import { resolveAttachments } from "./attachments";
+import { buildTurns, toSystemNote } from "./turns";
+
+// An empty URL means the official endpoint; anything else is treated as a reverse proxy root.
+// The SDK adds its own API version segment, so appendV1 does not apply here.
+const createClient = (apiUrl: string | undefined, apiKey: string, endpoint?: EndpointConfig) => {
+  const baseUrl = apiUrl?.trim().replace(/\/+$/, '');
+  const headers = endpoint?.extraHeaders;
+  return new GoogleGenAI({
+    apiKey,
+    httpOptions: baseUrl || headers ? { baseUrl: baseUrl || undefined, headers } : undefined
+  });
+};
+
+const listModels = async (apiUrl: string, apiKey: string, endpoint?: EndpointConfig) => {
+  const ai = createClient(apiUrl, apiKey, endpoint);
+  const pager = await ai.models.list();
+
+  const models: ModelInfo[] = [];
+  for await (const model of pager) {
+    // Model names come back as "models/gemini-..."; the SDK accepts the bare id.
+    if (!model.name) continue;
+    models.push({
+      id: model.name.replace(/^models\//, ''),
+      name: model.displayName,
+      contextLength: model.inputTokenLimit,
+      maxOutputTokens: model.outputTokenLimit
+    });
+  }
+  return models;
+};
+
+const toUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined => metadata
+  ? { promptTokens: metadata.promptTokenCount || 0, completionTokens: metadata.candidatesTokenCount || 0 }
+  : undefined;
+
+// Thought summaries arrive as parts flagged `thought`; the SDK's `text` getter skips them
+const splitParts = (response: GenerateContentResponse) => {
+  let text = '';
+  let reasoning = '';
+  response.candidates?.[0]?.content?.parts?.forEach(part => {
+    if (!part.text) return;
+    if (part.thought) reasoning += part.text;
+    else text += part.text;
+  });
+  return { text, reasoning };
+};
+
+const streamChat = async (request: ChatRequest) => {
+  const ai = createClient(request.apiUrl, request.apiKey, request.endpoint);
+
+  const toParts = (text: string, attachments?: ImageAttachment[]): Part[] => {
+    const resolved = resolveAttachments(text, attachments, request);
+    // The API rejects empty text parts, which image-only messages would otherwise send
+    return [
+      ...(resolved.text.trim() ? [{ text: resolved.text }] : []),
+      ...resolved.images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))
+    ];
+  };
+
+  // ChatMessage roles already use Gemini's 'user' / 'model' vocabulary; it has no system turns
+  const contents: Content[] = buildTurns(request).map(turn => ({
+    role: turn.role === 'system' ? 'user' : turn.role,
+    parts: toParts(turn.role === 'system' ? toSystemNote(turn.text) : turn.text, turn.attachments)
+  })).filter(content => content.parts!.length > 0);
+
+  const generationConfig = {
+    systemInstruction: request.systemInstruction,
+    temperature: request.params.temperature,
+    maxOutputTokens: request.params.maxTokens,
+    topP: request.params.topP,
+    topK: request.params.topK,
+    frequencyPenalty: request.params.frequencyPenalty,
+    presencePenalty: request.params.presencePenalty,
+    stopSequences: request.params.stopSequences,
+    // Thought summaries are only returned when asked for
+    thinkingConfig: request.params.thinkingBudget
+      ? { includeThoughts: true, thinkingBudget: request.params.thinkingBudget }
+      : undefined,
+    abortSignal: request.signal
+  };
+
+  if (!request.stream) {
+    const response = await ai.models.generateContent({ model: request.model, contents, config: generationConfig });
+    const { text, reasoning } = splitParts(response);
+    return singleChunkStream(text, toUsage(response.usageMetadata), reasoning);
+  }
+
+  const response = await ai.models.generateContentStream({ model: request.model, contents, config: generationConfig });
+
+  return {
+    [Symbol.asyncIterator]: async function* (): AsyncGenerator<StreamChunk> {
+      // Every chunk repeats the running usage totals; only the last one is complete
+      let usage: TokenUsage | undefined;
+      for await (const chunk of response) {
+        if (request.signal?.aborted) return;
+        usage = toUsage(chunk.usageMetadata) || usage;
+        const { text, reasoning } = splitParts(chunk);
+        if (reasoning) {
+          yield { type: 'reasoning', text: reasoning };
+        }
+        if (text) {
+          yield { type: 'content', text };
+        }
+      }
+      if (usage) {
+        yield { type: 'content', text: '', usage };
+      }
+    }
+  };
+};
+
+const embed = async (request: EmbeddingRequest) => {
+  const ai = createClient(request.apiUrl, request.apiKey, request.endpoint);
+  const response = await ai.models.embedContent({
+    model: request.model,
+    contents: request.texts,
+    config: { abortSignal: request.signal }
+  });
+  return (response.embeddings || []).map(e => e.values || []);
+};
+
+export const geminiProvider: ChatProvider = {
+  streamChat,
+  listModels,
+  embed
+};
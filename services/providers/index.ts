@@ -0,0 +1,24 @@
+import { ApiProvider } from "../../types";
+import { ChatProvider } from "./types";
+import { geminiProvider } from "./gemini";
+import { openAIProvider } from "./openai";
+import { anthropicProvider } from "./anthropic";
+import { mockProvider } from "./mock";
+
+export type { ChatProvider, ChatRequest, EmbeddingRequest, StreamChunk } from "./types";
+
+const PROVIDERS: Record<ApiProvider, ChatProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  anthropic: anthropicProvider,
+  mock: mockProvider
+};
+
+export const PROVIDER_LABELS: Record<ApiProvider, string> = {
+  gemini: 'Gemini (原生)',
+  openai: 'OpenAI 兼容',
+  anthropic: 'Anthropic',
+  mock: '离线模拟'
+};
+
+export const getProvider = (provider: ApiProvider = 'openai') => PROVIDERS[provider] || openAIProvider;
@@ -0,0 +1,45 @@
+// Offline stand-in for an embedding model: hashed character n-grams.
+// It only captures surface overlap ("王城" ~ "王都"), not meaning, but needs no network.
+
+const DIMENSIONS = 512;
+
+const CJK_CHAR_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+
+// 32-bit FNV-1a
+export const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const features = (text: string) => {
+  const result: string[] = [];
+  const lower = text.toLowerCase();
+  // CJK: single characters and bigrams
+  const cjk = Array.from(lower).filter(ch => CJK_CHAR_REGEX.test(ch));
+  cjk.forEach((ch, i) => {
+    result.push(ch);
+    if (i > 0) result.push(cjk[i - 1] + ch);
+  });
+  // Latin: whole words plus trigrams, so "kingdom" and "kings" still overlap
+  (lower.match(/[a-z0-9]+/g) || []).forEach(word => {
+    result.push(word);
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) result.push(padded.slice(i, i + 3));
+  });
+  return result;
+};
+
+export const localEmbed = (text: string) => {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  features(text).forEach(feature => {
+    const hash = hashString(feature);
+    // The top bit picks a sign so unrelated features cancel out instead of piling up
+    vector[hash % DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+  });
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm ? vector.map(v => v / norm) : vector;
+};
@@ -0,0 +1,113 @@
+import { MockSettings } from "../../types";
+import { ChatProvider, ChatRequest, EmbeddingRequest, StreamChunk } from "./types";
+import { ApiError, StreamError } from "./errors";
+import { singleChunkStream } from "./stream";
+import { sleep } from "../retry";
+import { estimateTokens } from "../tokenBudget";
+import { localEmbed } from "./localEmbedding";
+
+export const DEFAULT_MOCK_SETTINGS: MockSettings = {
+  mode: 'echo',
+  chunkDelayMs: 40,
+  simulate: 'none'
+};
+
+const DEFAULT_CANNED_RESPONSES = [
+  '你好！这是一条来自离线模拟接口的回复。',
+  '模拟接口正在工作：消息会按设定的间隔逐段输出，方便调试聊天界面的流式渲染。',
+  '这是一段较长的示例回复。\n\n它包含多个段落，用于检查换行、滚动以及气泡宽度在长文本下的表现。'
+];
+
+const SLOW_FIRST_BYTE_MS = 3000;
+
+const MOCK_MODELS = ['mock-echo', 'mock-canned', 'mock-replay'];
+
+// Replies are picked by turn so canned lists and transcripts advance with the conversation
+const pickReply = (request: ChatRequest, settings: MockSettings) => {
+  const turn = request.history.filter(m => m.role === 'model').length;
+  switch (settings.mode) {
+    case 'replay': {
+      const transcript = settings.transcript || [];
+      if (transcript.length === 0) return '[mock] 回放记录为空，请先在设置中录制或粘贴对话。';
+      return transcript[turn % transcript.length];
+    }
+    case 'canned': {
+      const canned = settings.cannedResponses?.length ? settings.cannedResponses : DEFAULT_CANNED_RESPONSES;
+      return canned[turn % canned.length];
+    }
+    default:
+      return `[mock] 收到：「${request.currentMessage}」`;
+  }
+};
+
+// Split into short, uneven pieces so the UI sees something close to real token deltas
+const toChunks = (text: string) => {
+  const chunks: string[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const size = 2 + Math.floor(Math.random() * 4);
+    chunks.push(text.slice(index, index + size));
+    index += size;
+  }
+  return chunks;
+};
+
+const listModels = async () => MOCK_MODELS.map(id => ({ id, contextLength: 32768, inputModalities: ['text'] }));
+
+const streamChat = async (request: ChatRequest) => {
+  const settings = { ...DEFAULT_MOCK_SETTINGS, ...request.mock };
+  const simulate = settings.simulate || 'none';
+
+  if (simulate === 'rateLimit') {
+    throw new ApiError(429, 'API Error 429: [mock] rate limit exceeded', 2000);
+  }
+  if (simulate === 'error') {
+    throw new ApiError(500, 'API Error 500: [mock] simulated server error');
+  }
+  if (simulate === 'slow') {
+    await sleep(SLOW_FIRST_BYTE_MS, request.signal);
+  }
+
+  const reply = pickReply(request, settings);
+  // Nothing is billed, but reporting usage keeps the dashboard exercisable offline
+  const usage = {
+    promptTokens: estimateTokens(request.systemInstruction) +
+      request.history.reduce((sum, m) => sum + estimateTokens(m.text), 0) +
+      (request.injections || []).reduce((sum, i) => sum + estimateTokens(i.text), 0) +
+      estimateTokens(request.currentMessage),
+    completionTokens: estimateTokens(reply),
+    estimated: true
+  };
+  if (!request.stream) return singleChunkStream(reply, usage);
+
+  const chunks = toChunks(reply);
+  const delay = (settings.chunkDelayMs ?? 0) * (simulate === 'slow' ? 10 : 1);
+
+  return {
+    [Symbol.asyncIterator]: async function* (): AsyncGenerator<StreamChunk> {
+      for (let i = 0; i < chunks.length; i++) {
+        if (simulate === 'midStreamError' && i === Math.floor(chunks.length / 2)) {
+          throw new StreamError('Stream Error: [mock] connection reset mid-stream', { code: 'mock_stream_error' });
+        }
+        if (delay > 0) {
+          try {
+            await sleep(delay, request.signal);
+          } catch {
+            return; // Aborted
+          }
+        }
+        if (request.signal?.aborted) return;
+        yield { type: 'content', text: chunks[i] };
+      }
+      yield { type: 'content', text: '', usage };
+    }
+  };
+};
+
+const embed = async (request: EmbeddingRequest) => request.texts.map(localEmbed);
+
+export const mockProvider: ChatProvider = {
+  streamChat,
+  listModels,
+  embed
+};
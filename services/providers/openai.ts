@@ -0,0 +1,199 @@
+import { EndpointConfig, ImageAttachment, ModelInfo, TokenUsage } from "../../types";
+import { ChatProvider, ChatRequest, EmbeddingRequest, StreamChunk } from "./types";
+import { toApiError } from "./errors";
+import { singleChunkStream } from "./stream";
+import { readSSE, parseSSEJson, throwIfErrorPayload } from "../sse";
+import { buildAzureUrl, resolveBaseUrl, withExtraHeaders } from "./endpoint";
+import { resolveAttachments, toDataUrl } from "./attachments";
+import { buildTurns } from "./turns";
+import { getCatalogKey, loadEndpointQuirks, saveEndpointQuirks } from "../modelCatalog";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+// How strict backends phrase their rejection of the usage option
+const STREAM_OPTIONS_ERROR_REGEX = /stream_options|include_usage/i;
+
+// Azure authenticates with `api-key`; everything else with a bearer token
+const getHeaders = (apiKey: string, endpoint?: EndpointConfig) => withExtraHeaders({
+  'Content-Type': 'application/json',
+  ...(endpoint?.azure ? { 'api-key': apiKey } : { 'Authorization': `Bearer ${apiKey}` })
+}, endpoint);
+
+const AZURE_DEPLOYMENT_REGEX = /\/openai\/deployments\/([^/?]+)/;
+
+const toNumber = (value: unknown) => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+// Plain OpenAI only returns ids. Gateways add more: OpenRouter sends context_length,
+// architecture.input_modalities and per-token pricing; vLLM sends max_model_len.
+const toModelInfo = (m: any): ModelInfo => {
+  const promptPrice = toNumber(m.pricing?.prompt);
+  const completionPrice = toNumber(m.pricing?.completion);
+  return {
+    id: m.id,
+    name: m.name,
+    contextLength: toNumber(m.context_length) ?? toNumber(m.max_model_len) ?? toNumber(m.top_provider?.context_length),
+    maxOutputTokens: toNumber(m.top_provider?.max_completion_tokens),
+    inputModalities: Array.isArray(m.architecture?.input_modalities) ? m.architecture.input_modalities : undefined,
+    pricing: promptPrice !== undefined || completionPrice !== undefined
+      ? { input: (promptPrice || 0) * 1_000_000, output: (completionPrice || 0) * 1_000_000 }
+      : undefined
+  };
+};
+
+const listModels = async (apiUrl: string, apiKey: string, endpoint?: EndpointConfig) => {
+  // An Azure deployment is itself the model; only a bare resource URL can be listed
+  if (endpoint?.azure) {
+    const deployment = apiUrl.match(AZURE_DEPLOYMENT_REGEX)?.[1] || endpoint.azureDeployment?.trim();
+    if (deployment) return [{ id: decodeURIComponent(deployment) }];
+  }
+  const url = endpoint?.azure
+    ? buildAzureUrl(apiUrl, endpoint, undefined, '/openai/models')
+    : `${resolveBaseUrl(apiUrl, DEFAULT_BASE_URL, endpoint)}/models`;
+
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: getHeaders(apiKey, endpoint)
+  });
+
+  if (!response.ok) {
+     throw new Error(`Failed to fetch models: ${response.status}`);
+  }
+
+  const data = await response.json();
+  // OpenAI List Models response: { data: [ { id: "..." }, ... ] }
+  if (data && Array.isArray(data.data)) {
+      return data.data.map(toModelInfo) as ModelInfo[];
+  }
+  return [];
+};
+
+const toUsage = (usage: any): TokenUsage | undefined => usage
+  ? { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 }
+  : undefined;
+
+const getChatUrl = (request: ChatRequest) => request.endpoint?.azure
+  ? buildAzureUrl(request.apiUrl, request.endpoint, request.endpoint.azureDeployment?.trim() || request.model, '/chat/completions')
+  : `${resolveBaseUrl(request.apiUrl, DEFAULT_BASE_URL, request.endpoint)}/chat/completions`;
+
+const streamChat = async (request: ChatRequest) => {
+  // Build messages array; turns with images use the content-part form
+  const toContent = (text: string, attachments?: ImageAttachment[]) => {
+      const resolved = resolveAttachments(text, attachments, request);
+      if (resolved.images.length === 0) return resolved.text;
+      return [
+          { type: 'text', text: resolved.text },
+          ...resolved.images.map(image => ({ type: 'image_url', image_url: { url: toDataUrl(image) } }))
+      ];
+  };
+
+  const messages: { role: string; content: unknown }[] = [
+      { role: 'system', content: request.systemInstruction }
+  ];
+
+  buildTurns(request).forEach(turn => {
+      messages.push({
+          role: turn.role === 'model' ? 'assistant' : turn.role,
+          content: toContent(turn.text, turn.attachments)
+      });
+  });
+
+  const send = (includeUsage: boolean) => fetch(getChatUrl(request), {
+      method: 'POST',
+      headers: getHeaders(request.apiKey, request.endpoint),
+      signal: request.signal,
+      body: JSON.stringify({
+          model: request.model,
+          messages: messages,
+          stream: request.stream,
+          // Ask for a final usage chunk; without it the caller estimates usage locally
+          stream_options: includeUsage ? { include_usage: true } : undefined,
+          temperature: request.params.temperature,
+          max_tokens: request.params.maxTokens,
+          top_p: request.params.topP,
+          frequency_penalty: request.params.frequencyPenalty,
+          presence_penalty: request.params.presencePenalty,
+          stop: request.params.stopSequences
+      })
+  });
+
+  // Strict backends reject the unknown stream_options field. Only that rejection is retried,
+  // and the endpoint is remembered so later sends skip the failing request.
+  const quirksKey = getCatalogKey('openai', request.apiUrl, request.endpoint);
+  const includeUsage = request.stream && !loadEndpointQuirks(quirksKey).noStreamUsage;
+  let response = await send(includeUsage);
+  if (includeUsage && (response.status === 400 || response.status === 422)) {
+      const error = await toApiError(response);
+      if (!STREAM_OPTIONS_ERROR_REGEX.test(error.message)) throw error;
+      saveEndpointQuirks(quirksKey, { noStreamUsage: true });
+      response = await send(false);
+  }
+
+  if (!response.ok) {
+      throw await toApiError(response);
+  }
+
+  if (!request.stream) {
+      const json = await response.json();
+      throwIfErrorPayload(json);
+      const message = json.choices?.[0]?.message;
+      return singleChunkStream(message?.content || '', toUsage(json.usage), message?.reasoning_content || message?.reasoning);
+  }
+
+  if (!response.body) throw new Error("No response body");
+  const body = response.body;
+
+  return {
+      [Symbol.asyncIterator]: async function* (): AsyncGenerator<StreamChunk> {
+          for await (const event of readSSE(body, request.signal)) {
+              if (event.data === '[DONE]') return;
+              const json = parseSSEJson(event);
+              const delta = json?.choices?.[0]?.delta;
+              // DeepSeek and most relays use reasoning_content; OpenRouter uses reasoning
+              const reasoning = delta?.reasoning_content || delta?.reasoning;
+              if (reasoning) {
+                  yield { type: 'reasoning', text: reasoning as string };
+              }
+              const content = delta?.content;
+              const usage = toUsage(json?.usage);
+              if (content || usage) {
+                  yield { type: 'content', text: (content as string) || '', usage };
+              }
+          }
+      }
+  };
+};
+
+const embed = async (request: EmbeddingRequest) => {
+  const url = request.endpoint?.azure
+    ? buildAzureUrl(request.apiUrl, request.endpoint, request.model, '/embeddings')
+    : `${resolveBaseUrl(request.apiUrl, DEFAULT_BASE_URL, request.endpoint)}/embeddings`;
+
+  const response = await fetch(url, {
+      method: 'POST',
+      headers: getHeaders(request.apiKey, request.endpoint),
+      signal: request.signal,
+      body: JSON.stringify({ model: request.model, input: request.texts })
+  });
+
+  if (!response.ok) {
+      throw await toApiError(response);
+  }
+
+  const json = await response.json();
+  throwIfErrorPayload(json);
+  // Results carry an index; don't rely on the server keeping input order
+  const vectors: number[][] = [];
+  (json.data || []).forEach((item: any, i: number) => {
+      vectors[item.index ?? i] = item.embedding;
+  });
+  return vectors;
+};
+
+export const openAIProvider: ChatProvider = {
+  streamChat,
+  listModels,
+  embed
+};
@@ -0,0 +1,14 @@
+import { TokenUsage } from "../../types";
+import { StreamChunk } from "./types";
+
+// Wraps a complete (non-streamed) reply in the same iterator contract the chat UI consumes
+export const singleChunkStream = (text: string, usage?: TokenUsage, reasoning?: string): AsyncIterable<StreamChunk> => ({
+  [Symbol.asyncIterator]: async function* (): AsyncGenerator<StreamChunk> {
+    if (reasoning) {
+      yield { type: 'reasoning', text: reasoning };
+    }
+    if (text || usage) {
+      yield { type: 'content', text, usage };
+    }
+  }
+});
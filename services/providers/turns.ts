@@ -0,0 +1,26 @@
+import { ImageAttachment } from "../../types";
+import { ChatRequest } from "./types";
+
+export interface RequestTurn {
+  role: 'user' | 'model' | 'system';
+  text: string;
+  attachments?: ImageAttachment[];
+}
+
+// History, then the current message, with world book injections spliced in at their depths
+export const buildTurns = (request: ChatRequest): RequestTurn[] => {
+  const turns: RequestTurn[] = [
+    ...request.history.map(msg => ({ role: msg.role, text: msg.text, attachments: msg.attachments })),
+    { role: 'user', text: request.currentMessage, attachments: request.currentAttachments }
+  ];
+  // Deepest first, so each later depth still counts only conversation turns behind it
+  [...(request.injections || [])]
+    .sort((a, b) => b.depth - a.depth)
+    .forEach(injection => {
+      turns.splice(Math.max(turns.length - injection.depth, 0), 0, { role: 'system', text: injection.text });
+    });
+  return turns;
+};
+
+// For APIs without a mid-conversation system role, injections travel as marked user text
+export const toSystemNote = (text: string) => `[系统提示]\n${text}`;
@@ -0,0 +1,49 @@
+import { AttachmentData, ChatMessage, EndpointConfig, GenerationParams, ImageAttachment, MockSettings, ModelInfo, TokenUsage } from "../../types";
+
+export interface StreamChunk {
+  type: 'content' | 'reasoning'; // Reasoning is shown apart from the reply and never sent back
+  text: string;
+  usage?: TokenUsage; // Sent once, usually with the final chunk
+}
+
+// World book text placed into the conversation as a system message. Depth counts
+// turns back from the end: 0 follows the current message, 1 precedes it, and so on.
+export interface PromptInjection {
+  depth: number;
+  text: string;
+}
+
+// Everything a backend needs to produce one reply.
+// The system instruction is already assembled (persona + world book).
+export interface ChatRequest {
+  apiUrl?: string;
+  apiKey: string;
+  endpoint?: EndpointConfig;
+  model: string;
+  systemInstruction: string;
+  history: ChatMessage[];
+  currentMessage: string;
+  currentAttachments?: ImageAttachment[];
+  injections?: PromptInjection[];
+  attachmentData?: Record<string, AttachmentData>; // Only set for vision models; missing images become placeholders
+  params: GenerationParams; // Already filtered to what the provider supports
+  maxOutputTokens?: number; // The model's output limit, when the model catalog knows it
+  stream: boolean;          // false for endpoints that reject `stream: true`
+  mock?: MockSettings;      // Only read by the mock provider
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingRequest {
+  apiUrl?: string;
+  apiKey: string;
+  endpoint?: EndpointConfig;
+  model: string;
+  texts: string[];
+  signal?: AbortSignal;
+}
+
+export interface ChatProvider {
+  streamChat: (request: ChatRequest) => Promise<AsyncIterable<StreamChunk>>;
+  listModels: (apiUrl: string, apiKey: string, endpoint?: EndpointConfig) => Promise<ModelInfo[]>;
+  embed?: (request: EmbeddingRequest) => Promise<number[][]>; // One vector per text, in order
+}
@@ -0,0 +1,63 @@
+import { StreamChunk } from "./providers";
+
+// Some relays inline reasoning into the content as <think>...</think> instead of a
+// separate field. This splits it back out, including tags cut across chunk boundaries.
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+// Length of the longest suffix of `text` that could still grow into `tag`
+const partialTagLength = (text: string, tag: string) => {
+  for (let n = Math.min(tag.length - 1, text.length); n > 0; n--) {
+    if (tag.startsWith(text.slice(-n))) return n;
+  }
+  return 0;
+};
+
+// For history saved before reasoning was split out, where the tags are still inline
+export const stripThinkTags = (text: string) =>
+  text.includes(OPEN_TAG) ? text.replace(/<think>[\s\S]*?(<\/think>\s*|$)/g, '') : text;
+
+export const splitThinkTags = (stream: AsyncIterable<StreamChunk>): AsyncIterable<StreamChunk> => ({
+  [Symbol.asyncIterator]: async function* (): AsyncGenerator<StreamChunk> {
+    let inThink = false;
+    let afterThink = false; // Drop the blank lines models put between </think> and the reply
+    let buffer = '';
+
+    const emit = (text: string): StreamChunk | null => {
+      if (inThink) return text ? { type: 'reasoning', text } : null;
+      if (afterThink) {
+        text = text.replace(/^\s+/, '');
+        if (text) afterThink = false;
+      }
+      return text ? { type: 'content', text } : null;
+    };
+
+    for await (const chunk of stream) {
+      if (chunk.type !== 'content') {
+        yield chunk;
+        continue;
+      }
+
+      buffer += chunk.text;
+      let index = buffer.indexOf(inThink ? CLOSE_TAG : OPEN_TAG);
+      while (index !== -1) {
+        const piece = emit(buffer.slice(0, index));
+        if (piece) yield piece;
+        buffer = buffer.slice(index + (inThink ? CLOSE_TAG : OPEN_TAG).length);
+        afterThink = inThink;
+        inThink = !inThink;
+        index = buffer.indexOf(inThink ? CLOSE_TAG : OPEN_TAG);
+      }
+
+      const keep = partialTagLength(buffer, inThink ? CLOSE_TAG : OPEN_TAG);
+      const piece = emit(buffer.slice(0, buffer.length - keep));
+      buffer = buffer.slice(buffer.length - keep);
+      if (piece) yield piece;
+      if (chunk.usage) yield { type: 'content', text: '', usage: chunk.usage };
+    }
+
+    const rest = emit(buffer);
+    if (rest) yield rest;
+  }
+});
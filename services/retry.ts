@@ -0,0 +1,42 @@
+import { ApiError } from "./providers/errors";
+
+export const DEFAULT_MAX_RETRIES = 2;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+// 408 / 409 / 429 and any 5xx are worth another try; other 4xx will fail the same way again.
+// fetch() rejects with a TypeError on network failures, which are treated as transient too.
+export const isRetryableError = (error: unknown) => {
+  if (error instanceof DOMException && error.name === 'AbortError') return false;
+  const status = error instanceof ApiError
+    ? error.status
+    : (error as { status?: unknown })?.status;
+  if (typeof status !== 'number') return error instanceof TypeError;
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+};
+
+// Exponential backoff with jitter, unless the server told us how long to wait
+export const getRetryDelay = (retry: number, error: unknown) => {
+  if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_DELAY_MS);
+  }
+  const exponential = BASE_DELAY_MS * Math.pow(2, retry);
+  return Math.min(exponential + Math.random() * BASE_DELAY_MS, MAX_DELAY_MS);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -0,0 +1,170 @@
+import { StreamError } from "./providers/errors";
+
+// Decoder for the text/event-stream format (WHATWG HTML, "Server-sent events").
+// Kept free of fetch/provider details so it can be exercised with plain strings.
+
+export interface SSEEvent {
+  event: string; // Defaults to "message" when no `event:` field was sent
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export class SSEDecoder {
+  private buffer = '';
+  private started = false;
+  private pendingCR = false;
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  // Feed decoded text; returns every event completed by this chunk
+  push(chunk: string): SSEEvent[] {
+    let text = chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    // A CRLF pair may be split across chunks; the LF half was already consumed with the CR
+    if (this.pendingCR && text.startsWith('\n')) text = text.slice(1);
+    this.pendingCR = false;
+
+    this.buffer += text;
+    const events: SSEEvent[] = [];
+
+    let lineStart = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+
+      const line = this.buffer.slice(lineStart, i);
+      if (ch === '\r') {
+        if (i + 1 < this.buffer.length) {
+          if (this.buffer[i + 1] === '\n') i++;
+        } else {
+          this.pendingCR = true;
+        }
+      }
+      lineStart = i + 1;
+
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+
+    this.buffer = this.buffer.slice(lineStart);
+    return events;
+  }
+
+  // End of stream. The spec discards an unterminated event, but several relays
+  // omit the final blank line, so a pending event with data is still delivered.
+  flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer);
+      if (event) events.push(event);
+      this.buffer = '';
+    }
+    const pending = this.dispatch();
+    if (pending) events.push(pending);
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return null; // Comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+      default:
+        // Unknown fields are ignored per spec
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEEvent | null {
+    const hasData = this.dataLines.length > 0;
+    const event: SSEEvent = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      id: this.lastEventId,
+      retry: this.retry
+    };
+    this.eventType = '';
+    this.dataLines = [];
+    return hasData ? event : null;
+  }
+}
+
+export async function* readSSE(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  const sse = new SSEDecoder();
+
+  try {
+    // Aborting the fetch also rejects a pending read(); the check covers events already buffered
+    while (!signal?.aborted) {
+      const { done, value } = await reader.read();
+      if (done) {
+        yield* sse.push(decoder.decode());
+        yield* sse.flush();
+        return;
+      }
+      for (const event of sse.push(decoder.decode(value, { stream: true }))) {
+        if (signal?.aborted) return;
+        yield event;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const toStreamError = (error: any, payload: unknown) => {
+  const message = typeof error === 'string' ? error : error?.message || 'stream error';
+  return new StreamError(`Stream Error: ${message}`, {
+    code: error?.code !== undefined && error?.code !== null ? String(error.code) : undefined,
+    type: typeof error === 'object' ? error?.type : undefined,
+    payload
+  });
+};
+
+// Proxies and relays report failures as `{"error": {...}}`, both mid-stream and in plain JSON bodies
+export const throwIfErrorPayload = (json: any) => {
+  if (json?.error !== undefined && json?.error !== null) {
+    throw toStreamError(json.error, json);
+  }
+};
+
+// Parses a JSON data payload and raises error frames as typed failures instead of treating them as content.
+// Non-JSON data (keep-alive pings, "[DONE]") yields undefined.
+export const parseSSEJson = (event: SSEEvent) => {
+  let json: any;
+  try {
+    json = JSON.parse(event.data);
+  } catch {
+    json = undefined;
+  }
+  if (event.event === 'error') {
+    throw toStreamError(json?.error ?? json ?? event.data, json ?? event.data);
+  }
+  throwIfErrorPayload(json);
+  return json;
+};
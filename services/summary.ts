@@ -0,0 +1,104 @@
+import { AppConfig, ChatMessage, Conversation, TokenUsage } from "../types";
+import { generateText } from "./geminiService";
+import { DEFAULT_CONTEXT_SIZE, estimateTokens } from "./tokenBudget";
+import { findModelInfo, getCatalogKey } from "./modelCatalog";
+import { describeAttachment } from "./providers/attachments";
+
+export const DEFAULT_SUMMARY_THRESHOLD = 60;
+
+// The newest messages always stay verbatim so the model keeps the exact recent wording
+export const SUMMARY_KEEP_RECENT = 20;
+
+// Share of the context window one summarization request may fill with transcript
+const CHUNK_SHARE = 0.5;
+
+const SUMMARY_INSTRUCTION = '你负责为一段角色扮演对话维护长期记忆。请用简体中文写出简洁的前情提要，保留人物关系、重要事件、约定、地点与尚未解决的线索，省略寒暄与重复内容。只输出提要正文。';
+
+export interface SummaryNames {
+  user: string;
+  char: string;
+}
+
+const findCoveredIndex = (conversation: Conversation) =>
+  conversation.messages.findIndex(m => m.id === conversation.summary?.coveredUntilId);
+
+// The last summarized message was deleted and the summary predates stored timestamps,
+// so nothing tells which messages it covers. It is left out of prompts until rebuilt.
+export const isSummaryStale = (conversation: Conversation) =>
+  !!conversation.summary && conversation.summary.coveredUntil === undefined && findCoveredIndex(conversation) === -1;
+
+// Messages after the summarized range; all of them when there is no usable summary
+export const getUnsummarizedMessages = (conversation: Conversation) => {
+  const summary = conversation.summary;
+  if (!summary) return conversation.messages;
+  const index = findCoveredIndex(conversation);
+  if (index !== -1) return conversation.messages.slice(index + 1);
+  if (summary.coveredUntil !== undefined) return conversation.messages.filter(m => m.timestamp > summary.coveredUntil!);
+  return conversation.messages;
+};
+
+export const getSummarizedCount = (conversation: Conversation) =>
+  conversation.messages.length - getUnsummarizedMessages(conversation).length;
+
+export const needsSummary = (conversation: Conversation, config: AppConfig) => {
+  const threshold = config.summaryThreshold ?? DEFAULT_SUMMARY_THRESHOLD;
+  if (threshold <= 0 || conversation.summary?.locked) return false;
+  if (isSummaryStale(conversation)) return pickMessagesToSummarize(conversation.messages).length > 0;
+  return getUnsummarizedMessages(conversation).length > Math.max(threshold, SUMMARY_KEEP_RECENT);
+};
+
+// Everything but the most recent messages, which stay as plain history
+export const pickMessagesToSummarize = (messages: ChatMessage[]) =>
+  messages.slice(0, Math.max(messages.length - SUMMARY_KEEP_RECENT, 0));
+
+const formatTranscript = (messages: ChatMessage[], names: SummaryNames) =>
+  messages
+    .map(m => {
+      const text = [m.text, ...(m.attachments || []).map(describeAttachment)].filter(Boolean).join(' ');
+      return `${m.role === 'user' ? names.user : names.char}: ${text}`;
+    })
+    .join('\n');
+
+// Long backlogs are folded in chunk by chunk, each pass extending the previous summary.
+// onUsage is called once per request, so passes that finished are counted even if a later one fails.
+export const summarizeMessages = async (
+  previousSummary: string | undefined,
+  messages: ChatMessage[],
+  config: AppConfig,
+  names: SummaryNames,
+  onUsage?: (usage: TokenUsage) => void,
+  signal?: AbortSignal
+) => {
+  const contextSize = config.contextSize
+    ?? findModelInfo(getCatalogKey(config.provider, config.customApiUrl, config.endpoint), config.model)?.contextLength
+    ?? DEFAULT_CONTEXT_SIZE;
+  const chunkBudget = Math.floor(contextSize * CHUNK_SHARE);
+
+  const chunks: ChatMessage[][] = [];
+  let current: ChatMessage[] = [];
+  let used = 0;
+  messages.forEach(message => {
+    const cost = estimateTokens(message.text) + 4;
+    if (current.length > 0 && used + cost > chunkBudget) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(message);
+    used += cost;
+  });
+  if (current.length > 0) chunks.push(current);
+
+  let summary = previousSummary || '';
+  for (const chunk of chunks) {
+    const prompt = [
+      summary ? `已有提要：\n${summary}` : '目前还没有提要。',
+      `新的对话：\n${formatTranscript(chunk, names)}`,
+      '请把新的对话合并进提要，输出更新后的完整提要。'
+    ].join('\n\n');
+    const result = await generateText(prompt, SUMMARY_INSTRUCTION, config, signal);
+    onUsage?.(result.usage);
+    summary = result.text || summary;
+  }
+  return summary;
+};
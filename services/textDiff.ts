@@ -0,0 +1,70 @@
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Latin words and whitespace runs stay whole; everything else (CJK, punctuation) is diffed per character
+const tokenize = (text: string) => text.match(/[A-Za-z0-9_]+|\s+|[\s\S]/gu) || [];
+
+// Above this many LCS cells the changed middle is shown as one replacement instead
+const MAX_CELLS = 2_000_000;
+
+export const diffText = (before: string, after: string): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Typo fixes touch a small span, so strip the shared ends before the quadratic part
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  push('same', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_CELLS) {
+    push('removed', midA.join(''));
+    push('added', midB.join(''));
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    // lcs[i][j] = longest common subsequence of midA[i..] and midB[j..]
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        push('same', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        push('removed', midA[i++]);
+      } else {
+        push('added', midB[j++]);
+      }
+    }
+    while (i < n) push('removed', midA[i++]);
+    while (j < m) push('added', midB[j++]);
+  }
+
+  push('same', a.slice(endA).join(''));
+  return parts;
+};
@@ -0,0 +1,162 @@
+import { ChatMessage, WorldEntry } from "../types";
+import { PromptInjection } from "./providers/types";
+
+export const DEFAULT_CONTEXT_SIZE = 16384;
+export const DEFAULT_RESPONSE_RESERVE = 1024;
+
+// Entries without their own settings; the same values SillyTavern uses
+export const DEFAULT_ENTRY_ORDER = 100;
+export const DEFAULT_ENTRY_DEPTH = 4;
+
+// Share of the input budget the system prompt and world book may each claim.
+// Whatever they leave unused goes to history.
+const SYSTEM_PROMPT_SHARE = 0.3;
+export const WORLD_BOOK_SHARE = 0.3;
+
+// Role markers and separators the providers wrap around each message
+const MESSAGE_OVERHEAD = 4;
+
+// Downscaled attachments land around this many tokens on the major vision APIs
+const IMAGE_TOKENS = 800;
+
+// CJK ideographs, kana, hangul and full-width punctuation
+const CJK_REGEX = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+// Rough but provider-agnostic: CJK characters usually cost about one token each,
+// while Latin text averages roughly four characters per token.
+export const estimateTokens = (text: string) => {
+  if (!text) return 0;
+  const cjkCount = (text.match(CJK_REGEX) || []).length;
+  const otherCount = text.length - cjkCount;
+  return cjkCount + Math.ceil(otherCount / 4);
+};
+
+const estimateMessageTokens = (text: string, imageCount = 0) =>
+  estimateTokens(text) + imageCount * IMAGE_TOKENS + MESSAGE_OVERHEAD;
+
+const truncateToTokens = (text: string, maxTokens: number) => {
+  if (estimateTokens(text) <= maxTokens) return text;
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(text.slice(0, mid)) <= maxTokens) low = mid;
+    else high = mid - 1;
+  }
+  return text.slice(0, low);
+};
+
+export interface BudgetInput {
+  systemPrompt: string;
+  worldBook: WorldEntry[];
+  history: ChatMessage[];
+  currentMessage: string;
+  currentImageCount?: number;
+  contextSize?: number;
+  responseReserve?: number;
+  worldBookBudget?: number; // Tokens; defaults to WORLD_BOOK_SHARE of the input budget
+}
+
+export interface BudgetResult {
+  systemInstruction: string;
+  history: ChatMessage[];
+  includedEntries: WorldEntry[];
+  droppedEntries: WorldEntry[];
+  injections: PromptInjection[];  // 'at_depth' entries, placed into history by the provider
+  worldBookTokens: number;
+  worldBookBudget: number;
+  droppedMessageCount: number;
+  systemPromptTruncated: boolean;
+  estimatedTokens: number;
+}
+
+const formatLore = (entries: WorldEntry[]) =>
+  entries.map((entry) => `[${entry.title}]: ${entry.content}`).join("\n\n");
+
+const wrapLore = (lore: string) =>
+  `=== 世界书上下文 (已知事实) ===\n${lore}\n=================`;
+
+// Equal orders keep the order they were given in
+const sortByOrder = (entries: WorldEntry[], direction: 1 | -1) =>
+  entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => direction * ((a.entry.order ?? DEFAULT_ENTRY_ORDER) - (b.entry.order ?? DEFAULT_ENTRY_ORDER)) || a.index - b.index)
+    .map(({ entry }) => entry);
+
+// Lower order is inserted first, but higher order is higher priority:
+// when the budget runs out, the lowest orders are dropped first
+const fitWorldBook = (entries: WorldEntry[], budget: number) => {
+  const byOrder = (list: WorldEntry[]) => sortByOrder(list, 1);
+  const kept = new Set<WorldEntry>();
+  let tokens = 0;
+  sortByOrder(entries, -1).forEach(entry => {
+    const cost = estimateTokens(formatLore([entry])) + 1;
+    if (tokens + cost > budget) return;
+    kept.add(entry);
+    tokens += cost;
+  });
+  return {
+    included: byOrder(entries.filter(entry => kept.has(entry))),
+    dropped: byOrder(entries.filter(entry => !kept.has(entry))),
+    tokens
+  };
+};
+
+// Entries at the same depth share one injected message
+const toInjections = (entries: WorldEntry[]): PromptInjection[] => {
+  const byDepth = new Map<number, WorldEntry[]>();
+  entries.forEach(entry => {
+    const depth = Math.max(entry.depth ?? DEFAULT_ENTRY_DEPTH, 0);
+    byDepth.set(depth, [...(byDepth.get(depth) || []), entry]);
+  });
+  return [...byDepth.entries()].map(([depth, group]) => ({ depth, text: formatLore(group) }));
+};
+
+export const applyContextBudget = (input: BudgetInput): BudgetResult => {
+  const contextSize = input.contextSize || DEFAULT_CONTEXT_SIZE;
+  const responseReserve = input.responseReserve ?? DEFAULT_RESPONSE_RESERVE;
+  const inputBudget = Math.max(contextSize - responseReserve, 0);
+
+  // 1. System prompt, capped to its own share
+  const systemBudget = Math.floor(inputBudget * SYSTEM_PROMPT_SHARE);
+  const systemPrompt = truncateToTokens(input.systemPrompt, systemBudget);
+  const systemPromptTruncated = systemPrompt.length < input.systemPrompt.length;
+
+  // 2. World book entries, highest priority first, skipping any that no longer fit
+  const worldBookBudget = Math.min(input.worldBookBudget ?? Math.floor(inputBudget * WORLD_BOOK_SHARE), inputBudget);
+  const world = fitWorldBook(input.worldBook, worldBookBudget - estimateTokens(wrapLore('')));
+  const at = (position: WorldEntry['position']) =>
+    world.included.filter(entry => (entry.position || 'after_char') === position);
+
+  const beforeLore = formatLore(at('before_char'));
+  const afterLore = formatLore(at('after_char'));
+  const injections = toInjections(at('at_depth'));
+  const systemInstruction = [beforeLore && wrapLore(beforeLore), systemPrompt, afterLore && wrapLore(afterLore)]
+    .filter(Boolean)
+    .join('\n\n');
+
+  // 3. History gets the remainder, newest messages first
+  let used = estimateMessageTokens(systemInstruction) + estimateMessageTokens(input.currentMessage, input.currentImageCount) +
+    injections.reduce((sum, injection) => sum + estimateMessageTokens(injection.text), 0);
+  let keepFrom = input.history.length;
+  while (keepFrom > 0) {
+    const message = input.history[keepFrom - 1];
+    const cost = estimateMessageTokens(message.text, message.attachments?.length);
+    if (used + cost > inputBudget) break;
+    used += cost;
+    keepFrom--;
+  }
+
+  return {
+    systemInstruction,
+    history: input.history.slice(keepFrom),
+    includedEntries: world.included,
+    droppedEntries: world.dropped,
+    injections,
+    worldBookTokens: world.tokens,
+    worldBookBudget,
+    droppedMessageCount: keepFrom,
+    systemPromptTruncated,
+    estimatedTokens: used
+  };
+};
@@ -0,0 +1,112 @@
+import { Conversation, ModelPrice, TokenUsage } from "../types";
+
+// Kept apart from os26_conversations so deleting messages never lowers what was already spent
+const LEDGER_KEY = 'os26_usage_ledger';
+
+export interface UsageRecord {
+  contactId: string;
+  preset: string;
+  model: string;
+  day: string; // Local calendar day, YYYY-MM-DD
+  timestamp: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean;
+}
+
+// Append-only records grouped by calendar month, YYYY-MM
+export type UsageLedger = Record<string, UsageRecord[]>;
+
+export interface UsageTotals {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  estimated: boolean; // At least one reply was counted locally
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export const toMonthKey = (timestamp: number) => toDayKey(timestamp).slice(0, 7);
+
+// Prices are per one million tokens
+export const calculateCost = (usage: TokenUsage, price?: ModelPrice) => {
+  if (!price) return 0;
+  return (usage.promptTokens * (price.input || 0) + usage.completionTokens * (price.output || 0)) / 1_000_000;
+};
+
+export const toUsageRecord = (
+  contactId: string,
+  usage: TokenUsage,
+  source: { answeredBy?: string; model?: string; timestamp: number }
+): UsageRecord => ({
+  contactId,
+  preset: source.answeredBy || '当前连接',
+  model: source.model || '未知模型',
+  day: toDayKey(source.timestamp),
+  timestamp: source.timestamp,
+  promptTokens: usage.promptTokens,
+  completionTokens: usage.completionTokens,
+  estimated: !!usage.estimated
+});
+
+// Every model reply that carries usage becomes one record
+export const collectUsage = (conversations: Conversation[]): UsageRecord[] =>
+  conversations.flatMap(conv => conv.messages
+    .filter(m => m.role === 'model' && m.usage)
+    .map(m => toUsageRecord(conv.contactId, m.usage!, m)));
+
+export const appendUsage = (ledger: UsageLedger, record: UsageRecord): UsageLedger => {
+  const month = toMonthKey(record.timestamp);
+  return { ...ledger, [month]: [...(ledger[month] || []), record] };
+};
+
+// The first load seeds the ledger from replies stored before it existed
+export const loadUsageLedger = (conversations: Conversation[]): UsageLedger => {
+  try {
+    const saved = localStorage.getItem(LEDGER_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch {
+    // Unreadable ledger; rebuild from what the conversations still hold
+  }
+  return collectUsage(conversations).reduce(appendUsage, {});
+};
+
+export const saveUsageLedger = (ledger: UsageLedger) => {
+  localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+};
+
+export const getLedgerRecords = (ledger: UsageLedger) => Object.values(ledger).flat();
+
+export const aggregateUsage = (
+  records: UsageRecord[],
+  keyOf: (record: UsageRecord) => string,
+  prices: Record<string, ModelPrice> = {}
+): UsageTotals[] => {
+  const totals = new Map<string, UsageTotals>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    const entry = totals.get(key) || { key, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, estimated: false };
+    entry.requests++;
+    entry.promptTokens += record.promptTokens;
+    entry.completionTokens += record.completionTokens;
+    entry.cost += calculateCost(record, prices[record.model]);
+    entry.estimated = entry.estimated || record.estimated;
+    totals.set(key, entry);
+  });
+  return [...totals.values()];
+};
+
+// Cost is computed from current prices, so editing a price re-prices past usage too
+export const getMonthlySpend = (
+  ledger: UsageLedger,
+  prices: Record<string, ModelPrice> = {},
+  now = Date.now()
+) => (ledger[toMonthKey(now)] || [])
+  .reduce((sum, record) => sum + calculateCost(record, prices[record.model]), 0);
@@ -0,0 +1,424 @@
+import { AppConfig, ChatMessage, SecondaryKeyLogic, WorldEntry, WorldEntryPosition, WorldEntryTimer } from "../types";
+import { retrieveWorldEntries } from "./embeddings";
+import { stripThinkTags } from "./reasoning";
+
+// Decides which world entries go into a prompt. Everything except the vector
+// retrieval step is synchronous and free of app state, so it can be tested directly.
+
+export const SECONDARY_LOGIC_LABELS: Record<SecondaryKeyLogic, string> = {
+  and_any: '且包含任一',
+  and_all: '且包含全部',
+  not_any: '且不含任何',
+  not_all: '且不全包含'
+};
+
+// How many of the latest messages keywords are matched against; 1 is the current message only
+export const DEFAULT_SCAN_DEPTH = 1;
+// Rounds in which activated entries' content may trigger further entries; 0 turns recursion off
+export const DEFAULT_MAX_RECURSION = 3;
+
+export const WORLD_ENTRY_POSITION_LABELS: Record<WorldEntryPosition, string> = {
+  before_char: '角色设定前',
+  after_char: '角色设定后',
+  at_depth: '对话深度'
+};
+
+const REGEX_KEY = /^\/(.+)\/([a-z]*)$/s;
+
+const CJK_CHAR_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const WORD_CHAR_REGEX = /[\p{L}\p{N}_]/u;
+
+export interface MatchOptions {
+  caseSensitive?: boolean;
+  matchWholeWords?: boolean;
+}
+
+export interface ScanMessage {
+  role: ChatMessage['role'];
+  text: string;
+}
+
+export type WorldTimers = Record<string, WorldEntryTimer>;
+
+// Where the conversation stands, for sticky, cooldown, delay and probability
+export interface TimedContext {
+  turn: number;         // User messages so far, the current one included
+  messageCount: number; // Messages so far, the current one included
+  timers: WorldTimers;
+  random?: () => number;
+}
+
+export interface ScanOptions {
+  depth?: number;          // Global scan depth; entries may override it
+  includeReplies?: boolean; // Whether the model's own replies can trigger entries
+  maxRecursion?: number;
+  timed?: TimedContext;
+}
+
+export interface ActivationResult {
+  entries: WorldEntry[];
+  reasons: Record<string, string>; // Why each entry is in, keyed by id
+  vectorCandidates: WorldEntry[];  // Vectorized entries no keyword caught; left to similarity search
+  triggeredBy: Record<string, string>; // Recursively activated entry id -> the entry whose content matched
+  loops: string[];                 // Chains of titles that lead back to an earlier entry
+  sticky: WorldEntry[];            // Kept on by an earlier trigger rather than matched this turn
+  skipped: Record<string, string>; // Matched entries held back by their timed effects, and why
+}
+
+export const isRegexKey = (key: string) => REGEX_KEY.test(key);
+
+// Keywords are edited as one comma-separated line; commas inside /regex/ keys must survive
+export const splitKeywords = (text: string) => {
+  const keys: string[] = [];
+  let pending = '';
+  text.split(/[,，]/).forEach(piece => {
+    pending = pending ? `${pending},${piece}` : piece.trimStart();
+    if (pending.startsWith('/') && !isRegexKey(pending.trim())) return;
+    if (pending.trim()) keys.push(pending.trim());
+    pending = '';
+  });
+  // An unterminated /... was never a regex; keep its pieces as plain keys
+  pending.split(',').forEach(piece => piece.trim() && keys.push(piece.trim()));
+  return keys;
+};
+
+// Stateful flags would make repeated .test() calls skip matches
+const compileRegexKey = (key: string) => {
+  const match = key.match(REGEX_KEY);
+  if (!match) return null;
+  try {
+    return new RegExp(match[1], match[2].replace(/[gy]/g, ''));
+  } catch {
+    return null;
+  }
+};
+
+const isLatinWordChar = (ch: string | undefined) => !!ch && WORD_CHAR_REGEX.test(ch) && !CJK_CHAR_REGEX.test(ch);
+
+// Word boundaries of a text: CJK has no spaces, so use the browser's word segmenter
+const segmentBoundaries = (text: string) => {
+  if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) return null;
+  const boundaries = new Set<number>([0, text.length]);
+  const segmenter = new Intl.Segmenter('zh', { granularity: 'word' });
+  for (const { index, segment } of segmenter.segment(text)) {
+    boundaries.add(index);
+    boundaries.add(index + segment.length);
+  }
+  return boundaries;
+};
+
+// A CJK edge must fall on a segment boundary ("战" does not match inside "战斗");
+// a Latin edge must not touch another Latin letter or digit ("war" does not match "software")
+const isWholeWordAt = (text: string, start: number, end: number, getBoundaries: () => Set<number> | null) => {
+  const edgeOk = (position: number, inside: string, outside: string | undefined) => {
+    if (CJK_CHAR_REGEX.test(inside)) {
+      const boundaries = getBoundaries();
+      return !boundaries || boundaries.has(position);
+    }
+    return !isLatinWordChar(inside) || !isLatinWordChar(outside);
+  };
+  return edgeOk(start, text[start], text[start - 1]) && edgeOk(end, text[end - 1], text[end]);
+};
+
+// Returns a matcher for one text, so segmentation and case folding happen once per text
+export const createKeyMatcher = (text: string) => {
+  const lowerText = text.toLowerCase();
+  let boundaries: Set<number> | null | undefined;
+  const getBoundaries = () => {
+    if (boundaries === undefined) boundaries = segmentBoundaries(text);
+    return boundaries;
+  };
+
+  return (key: string, options: MatchOptions = {}) => {
+    if (!key) return false;
+    if (isRegexKey(key)) {
+      const regex = compileRegexKey(key);
+      if (regex) return regex.test(text);
+    }
+    const haystack = options.caseSensitive ? text : lowerText;
+    const needle = options.caseSensitive ? key : key.toLowerCase();
+    let index = haystack.indexOf(needle);
+    while (index !== -1) {
+      if (!options.matchWholeWords || isWholeWordAt(text, index, index + needle.length, getBoundaries)) return true;
+      index = haystack.indexOf(needle, index + 1);
+    }
+    return false;
+  };
+};
+
+const checkSecondary = (entry: WorldEntry, matches: (key: string) => boolean) => {
+  const keys = entry.secondaryKeywords || [];
+  if (keys.length === 0) return { ok: true, matched: [] as string[] };
+  const matched = keys.filter(matches);
+  switch (entry.secondaryLogic || 'and_any') {
+    case 'and_all':
+      return { ok: matched.length === keys.length, matched };
+    case 'not_any':
+      return { ok: matched.length === 0, matched };
+    case 'not_all':
+      return { ok: matched.length < keys.length, matched };
+    default:
+      return { ok: matched.length > 0, matched };
+  }
+};
+
+// The primary key that fired, or null. Secondary keys only refine a primary match.
+export const matchEntry = (entry: WorldEntry, matcher: ReturnType<typeof createKeyMatcher>) => {
+  const options: MatchOptions = { caseSensitive: entry.caseSensitive, matchWholeWords: entry.matchWholeWords };
+  const matches = (key: string) => matcher(key, options);
+  const primary = (entry.triggerKeywords || []).find(matches);
+  if (!primary) return null;
+  const secondary = checkSecondary(entry, matches);
+  if (!secondary.ok) return null;
+  const logic = entry.secondaryLogic || 'and_any';
+  return {
+    key: primary,
+    secondary: logic === 'and_any' || logic === 'and_all' ? secondary.matched : []
+  };
+};
+
+// `offset` counts back from the current message, which is 0
+const describeSource = (message: ScanMessage, offset: number) => {
+  if (offset === 0) return '当前消息';
+  return `${offset} 条前的${message.role === 'model' ? '回复' : '用户消息'}`;
+};
+
+const describeMatch = (match: { key: string; secondary: string[] }, source: string) =>
+  `关键词「${match.key}」${match.secondary.map(k => `+「${k}」`).join('')} · ${source}`;
+
+const isAvailable = (entry: WorldEntry, contactId?: string) =>
+  entry.active && !(entry.scope === 'character' && entry.characterId !== contactId);
+
+// A timer set on the current turn belongs to an earlier attempt at it (a resend), so it is ignored
+const currentTimer = (entry: WorldEntry, timed: TimedContext) => {
+  const timer = timed.timers[entry.id];
+  return timer && timer.triggeredAt < timed.turn ? timer : undefined;
+};
+
+const isSticky = (entry: WorldEntry, timed?: TimedContext) => {
+  const stickyUntil = timed && currentTimer(entry, timed)?.stickyUntil;
+  return stickyUntil !== undefined && stickyUntil >= timed!.turn;
+};
+
+// Why a matched entry stays out this turn, or null when it may activate
+const checkTimedEffects = (entry: WorldEntry, timed?: TimedContext) => {
+  if (!timed) return null;
+  if (entry.delay && timed.messageCount < entry.delay) return `延迟中 (第 ${entry.delay} 条消息起生效)`;
+  const cooldownUntil = currentTimer(entry, timed)?.cooldownUntil;
+  if (cooldownUntil !== undefined && cooldownUntil >= timed.turn) return `冷却中 (还剩 ${cooldownUntil - timed.turn + 1} 轮)`;
+  const probability = entry.probability ?? 100;
+  if (probability < 100 && (timed.random || Math.random)() * 100 >= probability) return `概率未命中 (${probability}%)`;
+  return null;
+};
+
+// Lets a matched entry through its timed effects, noting why when it is held back
+const admit = (entry: WorldEntry, result: ActivationResult, timed?: TimedContext) => {
+  const blocked = checkTimedEffects(entry, timed);
+  if (blocked) result.skipped[entry.id] = `「${entry.title}」${blocked}`;
+  return !blocked;
+};
+
+const withProbability = (reason: string, entry: WorldEntry) =>
+  entry.probability !== undefined && entry.probability < 100 ? `${reason} · 概率 ${entry.probability}%` : reason;
+
+// Timers after this turn: expired ones are dropped, and entries that triggered
+// (not merely stayed on) start their sticky and cooldown periods
+export const advanceWorldTimers = (timers: WorldTimers, triggered: WorldEntry[], turn: number): WorldTimers => {
+  const next: WorldTimers = {};
+  Object.entries(timers).forEach(([id, timer]) => {
+    if (timer.triggeredAt < turn && Math.max(timer.stickyUntil ?? 0, timer.cooldownUntil ?? 0) >= turn) next[id] = timer;
+  });
+  triggered.forEach(entry => {
+    if (!entry.sticky && !entry.cooldown) return;
+    const activeUntil = turn + (entry.sticky || 0);
+    next[entry.id] = {
+      triggeredAt: turn,
+      stickyUntil: entry.sticky ? activeUntil : undefined,
+      cooldownUntil: entry.cooldown ? activeUntil + entry.cooldown : undefined
+    };
+  });
+  return next;
+};
+
+// Scans the content of `seeds` for further keywords, one level at a time. Each entry
+// activates at most once, so a loop (A triggers B triggers A) ends by itself; it is
+// still recorded so the inspector can point it out.
+const expandRecursively = (
+  entries: WorldEntry[],
+  seeds: WorldEntry[],
+  result: ActivationResult,
+  contactId: string | undefined,
+  maxRecursion: number,
+  timed?: TimedContext
+) => {
+  // Held-back entries count as decided, so a later pass doesn't roll for them again
+  const activeIds = new Set([...result.entries.map(entry => entry.id), ...Object.keys(result.skipped)]);
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+  const candidates = entries.filter(entry =>
+    isAvailable(entry, contactId) && !entry.excludeRecursion && entry.triggerKeywords && entry.triggerKeywords.length > 0
+  );
+  const chainOf = (id: string) => {
+    const chain = [id];
+    for (let parent = result.triggeredBy[id]; parent && !chain.includes(parent); parent = result.triggeredBy[parent]) {
+      chain.unshift(parent);
+    }
+    return chain;
+  };
+  const loops = new Set(result.loops);
+
+  let level = seeds.filter(entry => !entry.preventRecursion);
+  for (let depth = 1; depth <= maxRecursion && level.length > 0; depth++) {
+    const next: WorldEntry[] = [];
+    level.forEach(source => {
+      const matcher = createKeyMatcher(source.content);
+
+      const chain = chainOf(source.id);
+      chain.slice(0, -1).forEach((ancestorId, index) => {
+        const ancestor = byId.get(ancestorId);
+        if (!ancestor || ancestor.excludeRecursion || !matchEntry(ancestor, matcher)) return;
+        loops.add([...chain.slice(index), ancestorId].map(id => byId.get(id)?.title || id).join(' → '));
+      });
+
+      candidates.forEach(entry => {
+        if (activeIds.has(entry.id)) return;
+        const match = matchEntry(entry, matcher);
+        if (!match) return;
+        activeIds.add(entry.id);
+        if (!admit(entry, result, timed)) return;
+        result.entries.push(entry);
+        result.triggeredBy[entry.id] = source.id;
+        result.reasons[entry.id] = withProbability(describeMatch(match, `由「${source.title}」递归触发 (第 ${depth} 层)`), entry);
+        if (!entry.preventRecursion) next.push(entry);
+      });
+    });
+    level = next;
+  }
+
+  result.loops = [...loops];
+  result.vectorCandidates = result.vectorCandidates.filter(entry => !activeIds.has(entry.id));
+};
+
+// Keyword pass over the last messages, oldest first with the current message last.
+// Entries without keywords are always on, unless they are vectorized, in which case
+// similarity search decides. Activated entries can then trigger others recursively.
+export const activateEntries = (
+  entries: WorldEntry[],
+  messages: ScanMessage[],
+  contactId?: string,
+  options: ScanOptions = {}
+): ActivationResult => {
+  const globalDepth = options.depth ?? DEFAULT_SCAN_DEPTH;
+  const includeReplies = options.includeReplies ?? true;
+  const timed = options.timed;
+  const result: ActivationResult = {
+    entries: [], reasons: {}, vectorCandidates: [], triggeredBy: {}, loops: [], sticky: [], skipped: {}
+  };
+
+  // Newest first, each with its distance from the current message
+  const scanned = messages
+    .map((message, index) => ({ message, offset: messages.length - 1 - index }))
+    .reverse()
+    .filter(({ message }) => message.text && (includeReplies || message.role !== 'model'));
+
+  // Entries sharing a depth share one joined window, so secondary keys may sit in another message
+  const windows = new Map<number, { matcher: ReturnType<typeof createKeyMatcher>; items: typeof scanned }>();
+  const getWindow = (depth: number) => {
+    let window = windows.get(depth);
+    if (!window) {
+      const items = scanned.filter(({ offset }) => offset < depth);
+      window = { matcher: createKeyMatcher(items.map(i => i.message.text).reverse().join('\n')), items };
+      windows.set(depth, window);
+    }
+    return window;
+  };
+  const messageMatchers = new Map<number, ReturnType<typeof createKeyMatcher>>();
+  const getMessageMatcher = (offset: number, text: string) => {
+    if (!messageMatchers.has(offset)) messageMatchers.set(offset, createKeyMatcher(text));
+    return messageMatchers.get(offset)!;
+  };
+
+  entries.forEach(entry => {
+    if (!isAvailable(entry, contactId)) return;
+
+    if (isSticky(entry, timed)) {
+      const remaining = currentTimer(entry, timed!)!.stickyUntil! - timed!.turn;
+      result.entries.push(entry);
+      result.sticky.push(entry);
+      result.reasons[entry.id] = remaining > 0 ? `持续生效 (还剩 ${remaining} 轮)` : '持续生效 (最后一轮)';
+      return;
+    }
+
+    if (entry.triggerKeywords && entry.triggerKeywords.length > 0) {
+      const window = getWindow(Math.max(entry.scanDepth ?? globalDepth, 1));
+      const match = matchEntry(entry, window.matcher);
+      if (match) {
+        const matchOptions = { caseSensitive: entry.caseSensitive, matchWholeWords: entry.matchWholeWords };
+        // Credit the newest message containing the primary key
+        const source = window.items.find(({ message, offset }) =>
+          getMessageMatcher(offset, message.text)(match.key, matchOptions)
+        ) || window.items[0];
+        if (admit(entry, result, timed)) {
+          result.entries.push(entry);
+          result.reasons[entry.id] = withProbability(describeMatch(match, describeSource(source.message, source.offset)), entry);
+        }
+        return;
+      }
+    } else if (!entry.vectorized) {
+      if (admit(entry, result, timed)) {
+        result.entries.push(entry);
+        if (entry.probability !== undefined && entry.probability < 100) result.reasons[entry.id] = `概率 ${entry.probability}%`;
+      }
+      return;
+    }
+    if (entry.vectorized) result.vectorCandidates.push(entry);
+  });
+
+  expandRecursively(entries, [...result.entries], result, contactId, options.maxRecursion ?? DEFAULT_MAX_RECURSION, timed);
+  return result;
+};
+
+// Keyword activation followed by similarity search over the vectorized leftovers,
+// whose content gets the same recursive scan. `timers` is the conversation's
+// timed-effect state; the returned `timers` replaces it.
+export const selectWorldEntries = async (
+  entries: WorldEntry[],
+  currentMessage: string,
+  history: ChatMessage[],
+  config: AppConfig,
+  contactId?: string,
+  timers: WorldTimers = {},
+  signal?: AbortSignal
+) => {
+  const messages: ScanMessage[] = [
+    ...history.map(m => ({ role: m.role, text: m.role === 'model' ? stripThinkTags(m.text) : m.text })),
+    { role: 'user', text: currentMessage }
+  ];
+  const timed: TimedContext = {
+    turn: messages.filter(m => m.role === 'user').length,
+    messageCount: messages.length,
+    timers
+  };
+  const maxRecursion = config.worldBookMaxRecursion ?? DEFAULT_MAX_RECURSION;
+  const activation = activateEntries(entries, messages, contactId, {
+    depth: config.worldBookScanDepth,
+    includeReplies: config.worldBookScanReplies,
+    maxRecursion,
+    timed
+  });
+  const retrieved = await retrieveWorldEntries(activation.vectorCandidates, currentMessage, history, config, signal);
+  const admitted = retrieved.filter(({ entry }) => admit(entry, activation, timed));
+  admitted.forEach(({ entry, score }) => {
+    activation.entries.push(entry);
+    activation.reasons[entry.id] = withProbability(`语义相似 ${score.toFixed(2)}`, entry);
+  });
+  expandRecursively(entries, admitted.map(r => r.entry), activation, contactId, maxRecursion, timed);
+
+  const triggered = activation.entries.filter(entry => !activation.sticky.includes(entry));
+  return {
+    entries: activation.entries,
+    reasons: activation.reasons,
+    loops: activation.loops,
+    skipped: Object.values(activation.skipped),
+    timers: advanceWorldTimers(timers, triggered, timed.turn)
+  };
+};
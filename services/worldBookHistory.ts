@@ -0,0 +1,71 @@
+import { WorldEntry } from "../types";
+
+// Kept apart from os26_worldbook so revisions never reach prompts, embeddings or exports
+const STORAGE_KEY = 'os26_worldbook_history';
+const MAX_REVISIONS = 30;
+
+export interface WorldEntryRevision {
+  id: string;
+  timestamp: number; // When this version was replaced
+  entry: WorldEntry;  // The entry as it was before the change
+}
+
+// Newest first, keyed by entry id
+export type WorldBookHistory = Record<string, WorldEntryRevision[]>;
+
+// Fields the editor can change, in display order
+export const REVISION_FIELDS: { key: keyof WorldEntry; label: string }[] = [
+  { key: 'title', label: '名称' },
+  { key: 'category', label: '分类' },
+  { key: 'triggerKeywords', label: '触发词' },
+  { key: 'secondaryKeywords', label: '次要触发词' },
+  { key: 'secondaryLogic', label: '次要逻辑' },
+  { key: 'caseSensitive', label: '区分大小写' },
+  { key: 'matchWholeWords', label: '全词匹配' },
+  { key: 'scanDepth', label: '扫描深度' },
+  { key: 'preventRecursion', label: '不触发其他条目' },
+  { key: 'excludeRecursion', label: '不可被递归触发' },
+  { key: 'sticky', label: '持续轮数' },
+  { key: 'cooldown', label: '冷却轮数' },
+  { key: 'delay', label: '延迟消息数' },
+  { key: 'probability', label: '触发概率' },
+  { key: 'order', label: '顺序' },
+  { key: 'position', label: '插入位置' },
+  { key: 'depth', label: '插入深度' },
+  { key: 'scope', label: '生效范围' },
+  { key: 'characterId', label: '绑定角色' },
+  { key: 'vectorized', label: '向量检索' },
+  { key: 'similarityThreshold', label: '相似度阈值' },
+  { key: 'content', label: '内容设定' }
+];
+
+export const loadWorldBookHistory = (): WorldBookHistory => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveWorldBookHistory = (history: WorldBookHistory) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+};
+
+const normalize = (value: unknown) => JSON.stringify(value ?? null);
+
+export const getChangedFields = (before: WorldEntry, after: WorldEntry) =>
+  REVISION_FIELDS.filter(({ key }) => normalize(before[key]) !== normalize(after[key]));
+
+export const addRevision = (history: WorldBookHistory, previous: WorldEntry): WorldBookHistory => ({
+  ...history,
+  [previous.id]: [
+    { id: `${Date.now()}`, timestamp: Date.now(), entry: previous },
+    ...(history[previous.id] || [])
+  ].slice(0, MAX_REVISIONS)
+});
+
+export const removeHistory = (history: WorldBookHistory, entryId: string): WorldBookHistory => {
+  const { [entryId]: _removed, ...rest } = history;
+  return rest;
+};
@@ -0,0 +1,62 @@
+import { Contact, Conversation, WorldBook, WorldEntry } from "../types";
+
+const STORAGE_KEY = 'os26_worldbooks';
+
+// Entries written before books existed have no bookId and belong here
+export const DEFAULT_WORLD_BOOK_ID = 'default';
+
+const createDefaultBook = (): WorldBook => ({
+  id: DEFAULT_WORLD_BOOK_ID,
+  name: '默认世界书',
+  enabled: true,
+  global: true
+});
+
+// The default book always exists, so older entries keep applying to every chat
+export const loadWorldBooks = (): WorldBook[] => {
+  let books: WorldBook[] = [];
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    books = saved ? JSON.parse(saved) : [];
+  } catch {
+    books = [];
+  }
+  return books.some(b => b.id === DEFAULT_WORLD_BOOK_ID) ? books : [createDefaultBook(), ...books];
+};
+
+export const saveWorldBooks = (books: WorldBook[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(books));
+};
+
+export const getEntryBookId = (entry: WorldEntry) => entry.bookId || DEFAULT_WORLD_BOOK_ID;
+
+// Stored without a bookId when it goes to the default book, like older entries
+export const toBookId = (bookId: string) => bookId === DEFAULT_WORLD_BOOK_ID ? undefined : bookId;
+
+// Enabled books that apply to a chat, most specific first: conversation, contact, then global
+export const getActiveBooks = (books: WorldBook[], contact?: Contact, conversation?: Conversation) => {
+  const enabled = books.filter(book => book.enabled);
+  const attached = (ids?: string[]) => enabled.filter(book => ids?.includes(book.id));
+  const ordered = [...attached(conversation?.worldBookIds), ...attached(contact?.worldBookIds), ...enabled.filter(book => book.global)];
+  return ordered.filter((book, index) => ordered.indexOf(book) === index);
+};
+
+const dedupeKey = (entry: WorldEntry) => `${entry.title.trim()}\n${entry.content.trim()}`;
+
+// Entries of every active book. The same lore copied into several books (same title and
+// content) is kept once, from the most specific book, so it isn't sent twice.
+export const collectWorldEntries = (entries: WorldEntry[], books: WorldBook[], contact?: Contact, conversation?: Conversation) => {
+  const rank = new Map(getActiveBooks(books, contact, conversation).map((book, index) => [book.id, index]));
+  const seen = new Set<string>();
+  return entries
+    .filter(entry => rank.has(getEntryBookId(entry)))
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => rank.get(getEntryBookId(a.entry))! - rank.get(getEntryBookId(b.entry))! || a.index - b.index)
+    .filter(({ entry }) => {
+      const key = dedupeKey(entry);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ entry }) => entry);
+};
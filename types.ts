@@ -5,22 +5,117 @@ export enum AppId {
   WORLDBOOK = 'worldbook',
 }
 
+// Where an entry sits relative to the character prompt, or as its own message N turns back
+export type WorldEntryPosition = 'before_char' | 'after_char' | 'at_depth';
+
+// How secondary keywords refine a primary keyword match
+export type SecondaryKeyLogic = 'and_any' | 'and_all' | 'not_any' | 'not_all';
+
+// A named collection of world entries. Global books apply to every chat;
+// the rest only where a contact or conversation lists them.
+export interface WorldBook {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  global?: boolean;
+}
+
 export interface WorldEntry {
   id: string;
+  bookId?: string;               // Missing means the default book
   title: string;
   content: string;
   active: boolean;
   category?: string;
-  triggerKeywords?: string[];
+  triggerKeywords?: string[];    // Plain text, or /pattern/flags for a regex
+  secondaryKeywords?: string[];
+  secondaryLogic?: SecondaryKeyLogic; // Defaults to 'and_any'
+  caseSensitive?: boolean;
+  matchWholeWords?: boolean;
+  scanDepth?: number;            // Overrides the global scan depth
+  preventRecursion?: boolean;    // Content never triggers other entries
+  excludeRecursion?: boolean;    // Only messages can trigger it, not other entries' content
+  sticky?: number;               // Turns it stays active after triggering
+  cooldown?: number;             // Turns it can't trigger once it ends
+  delay?: number;                // Dormant until the conversation has this many messages
+  probability?: number;          // Chance (0-100) that a match activates it; defaults to 100
   scope?: 'global' | 'character';
   characterId?: string;
+  vectorized?: boolean;          // Also retrieved by embedding similarity to recent messages
+  similarityThreshold?: number;  // Cosine similarity (0-1) required for vector retrieval
+  order?: number;                // Insertion order, lower first; higher survives the budget longer
+  position?: WorldEntryPosition;
+  depth?: number;                // Only for 'at_depth'
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean; // Provider reported nothing; counted locally
+}
+
+// Price per one million tokens, in the user's billing currency
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface InspectedEntry {
+  id: string;
+  title: string;
+  reason: string; // Why the entry was activated
+  placement?: string; // Position and order it was inserted with
+}
+
+// Snapshot of what was actually sent for one model turn
+export interface PromptInspection {
+  preset: string;
+  provider: ApiProvider;
+  model: string;
+  params: GenerationParams;
+  stream: boolean;
+  systemInstruction: string;     // Final text, world book included
+  worldEntries: InspectedEntry[];
+  droppedEntries: InspectedEntry[]; // Matched but cut by the world book budget
+  worldBookTokens?: number;
+  worldBookBudget?: number;
+  worldBookLoops?: string[];     // Recursive activation chains that lead back to an earlier entry
+  worldBookSkipped?: string[];   // Matched entries held back by delay, cooldown or probability
+  historyFirstId?: string;       // Included history is the messages from this one on
+  historyCount: number;
+  droppedMessageCount: number;
+  currentMessage: string;
+  estimatedTokens: number;
+}
+
+// Image bytes live in IndexedDB; messages only keep this descriptor
+export interface ImageAttachment {
+  id: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  name?: string;
+}
+
+export interface AttachmentData {
+  mimeType: string;
+  data: string; // Base64, no data: prefix
 }
 
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
+  reasoning?: string; // Model's thinking, shown collapsed and never sent back as history
+  attachments?: ImageAttachment[];
   timestamp: number;
+  stopped?: boolean; // Generation was cancelled by the user; text is partial
+  answeredBy?: string; // Name of the preset that produced this reply
+  attempts?: number;   // Requests made across retries and fallbacks
+  model?: string;
+  usage?: TokenUsage;
+  inspection?: PromptInspection;
 }
 
 export interface Contact {
@@ -29,6 +124,24 @@ export interface Contact {
   avatar: string; // Tailwind color class or image URL
   bio: string;
   systemPrompt: string;
+  generation?: GenerationParams; // Per-character overrides on top of the active preset
+  worldBookIds?: string[];       // Non-global books used in every chat with this contact
+}
+
+// Long-term memory: older messages condensed by the model
+export interface ConversationSummary {
+  text: string;
+  coveredUntilId: string; // Last message folded into the summary; later ones are sent as history
+  coveredUntil?: number;  // That message's timestamp, used when the message itself is gone
+  updatedAt: number;
+  locked?: boolean;       // Frozen; automatic updates skip it
+}
+
+// Timed effects of one world entry in one conversation, counted in user turns
+export interface WorldEntryTimer {
+  triggeredAt: number;
+  stickyUntil?: number;   // Active through this turn
+  cooldownUntil?: number; // Blocked through this turn
 }
 
 export interface Conversation {
@@ -38,14 +151,73 @@ export interface Conversation {
   lastMessage: string;
   timestamp: number;
   unreadCount: number;
+  trimmedMessageCount?: number; // Oldest messages left out of the last prompt
+  summary?: ConversationSummary;
+  worldTimers?: Record<string, WorldEntryTimer>; // Keyed by world entry id
+  worldBookIds?: string[]; // Non-global books used only in this conversation
+}
+
+export type ApiProvider = 'gemini' | 'openai' | 'anthropic' | 'mock';
+
+// Offline provider settings for demos and UI work
+export interface MockSettings {
+  mode: 'echo' | 'canned' | 'replay';
+  chunkDelayMs?: number;
+  cannedResponses?: string[];
+  transcript?: string[]; // Recorded model replies, replayed turn by turn
+  simulate?: 'none' | 'error' | 'rateLimit' | 'slow' | 'midStreamError';
+}
+
+// Sampling settings; unset fields fall back to the next layer (contact -> preset -> defaults)
+export interface GenerationParams {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  topK?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stopSequences?: string[];
+  thinkingBudget?: number; // Tokens the model may spend reasoning; only sent to models that support it
+}
+
+// Whatever a provider's model listing exposes; only the id is guaranteed
+export interface ModelInfo {
+  id: string;
+  name?: string;
+  contextLength?: number;    // Input context window in tokens
+  maxOutputTokens?: number;
+  inputModalities?: string[]; // e.g. ['text', 'image']
+  pricing?: ModelPrice;       // Per one million tokens
+}
+
+export interface ModelCatalog {
+  models: ModelInfo[];
+  fetchedAt: number;
+}
+
+// How the API URL is turned into request URLs and headers
+export interface EndpointConfig {
+  appendV1?: boolean;          // Add /v1 when the URL has no version segment
+  azure?: boolean;             // Azure OpenAI: api-key header, api-version query, deployment path
+  azureApiVersion?: string;
+  azureDeployment?: string;    // Defaults to the model name
+  extraHeaders?: Record<string, string>; // e.g. OpenRouter's HTTP-Referer / X-Title
 }
 
 export interface ApiPreset {
   id: string;
   name: string;
-  apiUrl: string;
+  provider?: ApiProvider; // Legacy presets without this field are OpenAI-compatible
+  apiUrl: string;           // Used as given; see EndpointConfig for rewriting
   apiKey: string;
   model: string;
+  endpoint?: EndpointConfig;
+  contextSize?: number;     // Total context window in tokens
+  responseReserve?: number; // Tokens kept free for the reply
+  generation?: GenerationParams;
+  disableStreaming?: boolean; // For endpoints that reject `stream: true`
+  mock?: MockSettings;
+  embeddingModel?: string;  // Empty uses the local stand-in
 }
 
 export interface UserPersona {
@@ -60,12 +232,31 @@ export interface AppConfig {
   userPersonas?: UserPersona[]; // List of available personas
   currentPersonaId?: string;    // Currently active persona ID
   systemPrompt: string; // Default system prompt
+  provider?: ApiProvider;
   customApiUrl?: string;
   customApiKey?: string;
+  endpoint?: EndpointConfig;
+  contextSize?: number;
+  responseReserve?: number;
+  generation?: GenerationParams;
+  disableStreaming?: boolean;
+  mock?: MockSettings;
+  embeddingModel?: string;
+  worldBookTopK?: number;        // Most vectorized entries injected per turn
+  worldBookScanDepth?: number;   // Latest messages searched for trigger keywords
+  worldBookScanReplies?: boolean; // Model replies can trigger entries; on by default
+  worldBookBudget?: number;      // Tokens for all world entries; lowest order is dropped first
+  worldBookMaxRecursion?: number; // Rounds of entries triggering entries; 0 disables
+  summaryThreshold?: number;     // Unsummarized messages before older ones are condensed; 0 disables
+  maxRetries?: number;           // Retries per preset for transient failures
+  fallbackPresetIds?: string[];  // Tried in order once the active connection gives up
+  modelPrices?: Record<string, ModelPrice>;
+  monthlySpendLimit?: number;    // Sends are blocked once this month's cost reaches it
   presets: ApiPreset[];
   wallpaper?: string;
   momentsCover?: string;
   showStatusBar?: boolean;
+  schemaVersion?: number;        // Stored config format, for one-time migrations on load
 }
 
 export type ThemeMode = 'light' | 'dark';
\ No newline at end of file